@@ -0,0 +1,358 @@
+import Catamorphism from "./Catamorphism";
+import Maybe, {
+  doNotation,
+  just,
+  nothing,
+  propagate,
+  tracedNothing,
+} from "./Maybe";
+
+/**
+ * Anything that eventually produces a `Maybe<A>`: a plain `Maybe`, a `Promise` of one,
+ * or an `AsyncMaybe` (which is itself `PromiseLike`).
+ *
+ * @template A - The type of the value that may be present.
+ */
+export type MaybeLike<A> = Maybe<A> | PromiseLike<Maybe<A>>;
+
+/**
+ * Represents a `Maybe` that will be available at some point in the future.
+ *
+ * `AsyncMaybe` wraps a `Promise<Maybe<A>>` and exposes the same vocabulary as `Maybe`
+ * (`map`, `andThen`, `orElse`, `filter`, `assign`, `do`, `elseDo`, `cata`, `getOrElse`),
+ * so asynchronous lookups can be chained without awaiting between each step. The
+ * chain resolves to a plain `Maybe` when awaited.
+ *
+ * `AsyncMaybe` is `PromiseLike<Maybe<A>>`, so it can be `await`ed directly, or returned from
+ * an `async` function.
+ *
+ * @template A - The type of the value that may be present.
+ *
+ * @example
+ * const user: Maybe<User> = await AsyncMaybe.from(findUser(id))
+ *   .andThen((user) => fetchProfile(user.profileId))
+ *   .map((profile) => profile.user);
+ */
+export class AsyncMaybe<A> implements PromiseLike<Maybe<A>> {
+  /**
+   * The underlying promise of a `Maybe`.
+   */
+  private readonly promise: Promise<Maybe<A>>;
+
+  /**
+   * Creates an `AsyncMaybe` from a `Maybe`, a `Promise` of a `Maybe`, or another `AsyncMaybe`.
+   *
+   * @template A - The type of the value that may be present.
+   * @param value - The value to wrap.
+   * @returns An `AsyncMaybe<A>` that resolves to the wrapped `Maybe`.
+   *
+   * @example
+   * const a: AsyncMaybe<number> = AsyncMaybe.from(just(5));
+   * const b: AsyncMaybe<User> = AsyncMaybe.from(findUser(id)); // findUser returns Promise<Maybe<User>>
+   */
+  public static from<A>(value: MaybeLike<A>): AsyncMaybe<A> {
+    return value instanceof AsyncMaybe ? value : new AsyncMaybe(value);
+  }
+
+  /**
+   * Creates an `AsyncMaybe` in the `Just` state with the given value.
+   *
+   * @template A - The type of the value to be wrapped.
+   * @param value - The value to be wrapped.
+   * @returns An `AsyncMaybe<A>` that resolves to `just(value)`.
+   */
+  public static just<A>(value: A): AsyncMaybe<A> {
+    return new AsyncMaybe(just(value));
+  }
+
+  /**
+   * Creates an `AsyncMaybe` in the `Nothing` state.
+   *
+   * @template A - The type of the value that would have been present.
+   * @returns An `AsyncMaybe<A>` that resolves to `nothing()`.
+   */
+  public static nothing<A>(): AsyncMaybe<A> {
+    return new AsyncMaybe(nothing<A>());
+  }
+
+  /**
+   * Runs an async-generator-based "do-notation" block.
+   *
+   * This is the asynchronous counterpart of `Maybe.gen`. Inside the block,
+   * `yield* bind(value)` unwraps a `Maybe`, a promise of a `Maybe` or an `AsyncMaybe`. Any
+   * `Nothing` short-circuits the whole block. The value returned from the block is wrapped
+   * in a `Just`.
+   *
+   * @template T - The type of the value returned from the block.
+   * @param body - An async generator function that `yield*`s `bind(value)` for each `MaybeLike` and returns a result.
+   * @returns An `AsyncMaybe<T>` containing the returned value, or `Nothing`.
+   *
+   * @example
+   * const result: Maybe<string> = await AsyncMaybe.gen(async function* (bind) {
+   *   const user = yield* bind(findUser(id)); // findUser returns Promise<Maybe<User>>
+   *   const team = yield* bind(AsyncMaybe.from(findTeam(user.teamId)));
+   *   return `${user.name} (${team.name})`;
+   * });
+   */
+  public static gen<T>(
+    body: (
+      bind: <B>(value: MaybeLike<B>) => AsyncGenerator<Maybe<B>, B, unknown>
+    ) => AsyncGenerator<Maybe<unknown>, T, unknown>
+  ): AsyncMaybe<T> {
+    const bind = async function* <B>(
+      value: MaybeLike<B>
+    ): AsyncGenerator<Maybe<B>, B, unknown> {
+      return yield* (await value)[doNotation]();
+    };
+    const run = async (): Promise<Maybe<T>> => {
+      const iterator = body(bind);
+      let step = await iterator.next();
+      while (!step.done) {
+        const yielded = step.value as Maybe<unknown>;
+        if (!yielded.isJust()) {
+          await iterator.return(undefined as T);
+          return propagate(yielded);
+        }
+        step = await iterator.next(yielded.value);
+      }
+      return just(step.value as T);
+    };
+    return new AsyncMaybe(run());
+  }
+
+  /**
+   * Creates a new `AsyncMaybe` instance.
+   *
+   * @param value - The `Maybe`, or promise of a `Maybe`, to wrap.
+   */
+  constructor(value: MaybeLike<A>) {
+    this.promise = Promise.resolve(value);
+  }
+
+  /**
+   * Applies a (possibly asynchronous) function to the value if it resolves to a `Just`.
+   *
+   * @template B - The type of the value contained within the output `AsyncMaybe`.
+   * @param fn - The function to apply. It may return a value or a promise of a value.
+   * @returns A new `AsyncMaybe<B>`.
+   *
+   * @example
+   * AsyncMaybe.just(5).map((x) => x * 2); // resolves to just(10)
+   * AsyncMaybe.just(5).map(async (x) => x * 2); // resolves to just(10)
+   */
+  public map<B>(fn: (a: A) => B | PromiseLike<B>): AsyncMaybe<B> {
+    return this.andThen(async (a) => just(await fn(a)));
+  }
+
+  /**
+   * Chains a computation that returns a `Maybe`, a `Promise` of a `Maybe`, or an `AsyncMaybe`.
+   *
+   * @template B - The type of the value contained within the output `AsyncMaybe`.
+   * @param fn - The function to apply to the value if it resolves to a `Just`.
+   * @returns A new `AsyncMaybe<B>`; `Nothing` if this resolves to `Nothing` or `fn` produces `Nothing`.
+   *
+   * @example
+   * AsyncMaybe.just(id).andThen(findUser).andThen((user) => just(user.name));
+   */
+  public andThen<B>(fn: (a: A) => MaybeLike<B>): AsyncMaybe<B> {
+    return new AsyncMaybe(
+      this.promise.then(async (m): Promise<Maybe<B>> => {
+        if (!m.isJust()) {
+          return propagate(m);
+        }
+        const result = await fn(m.value);
+        return Maybe.isTracing() && result.isNothing()
+          ? tracedNothing({
+              operation: "andThen",
+              label: fn.name || undefined,
+              cause: result.trace,
+            })
+          : result;
+      })
+    );
+  }
+
+  /**
+   * Returns this `AsyncMaybe` if it resolves to a `Just`, otherwise the result of evaluating `fn`.
+   *
+   * @param fn - Produces the fallback `Maybe`, `Promise` of a `Maybe`, or `AsyncMaybe`.
+   * @returns A new `AsyncMaybe<A>`.
+   *
+   * @example
+   * AsyncMaybe.from(findInCache(id)).orElse(() => findInDatabase(id));
+   */
+  public orElse(fn: () => MaybeLike<A>): AsyncMaybe<A> {
+    return new AsyncMaybe(
+      this.promise.then((m) =>
+        m.cata<MaybeLike<A>>({ Just: () => m, Nothing: fn })
+      )
+    );
+  }
+
+  /**
+   * Keeps the value only if it satisfies a (possibly asynchronous) predicate.
+   *
+   * @param predicate - A function returning a boolean, or a promise of a boolean.
+   * @returns A new `AsyncMaybe<A>`; `Nothing` if the predicate fails.
+   *
+   * @example
+   * AsyncMaybe.from(findUser(id)).filter((user) => isActive(user.id));
+   */
+  public filter(
+    predicate: (a: A) => boolean | PromiseLike<boolean>
+  ): AsyncMaybe<A> {
+    return new AsyncMaybe(
+      this.promise.then(
+        async (m): Promise<Maybe<A>> =>
+          !m.isJust() || (await predicate(m.value))
+            ? m
+            : tracedNothing({
+                operation: "filter",
+                label: predicate.name || undefined,
+              })
+      )
+    );
+  }
+
+  /**
+   * The asynchronous counterpart of `Maybe#assign`. Builds up an object from a series of
+   * (possibly asynchronous) `Maybe` values. Like `Maybe#assign`, it gives `Nothing` without
+   * calling `other` if the value is not an object.
+   *
+   * @template K - The type of the key to assign to.
+   * @template B - The type of the value to assign.
+   * @param k - The key to assign the value to.
+   * @param other - A `MaybeLike<B>`, or a function of the current scope that returns one.
+   * @returns A new `AsyncMaybe` containing the merged object, or `Nothing`.
+   *
+   * @example
+   * AsyncMaybe.just({})
+   *   .assign("user", findUser(id))
+   *   .assign("profile", (scope) => fetchProfile(scope.user.profileId));
+   */
+  public assign<K extends string, B extends Object>(
+    k: K,
+    other: MaybeLike<B> | ((a: A) => MaybeLike<B>)
+  ): AsyncMaybe<A & { [k in K]: B }> {
+    return this.andThen(async (a) => {
+      if (typeof a !== "object" || a === null) {
+        return tracedNothing<A & { [k in K]: B }>({
+          operation: "assign",
+          key: k,
+        });
+      }
+      const maybe = await (typeof other === "function" ? other(a) : other);
+      return just(a).assign(k, maybe);
+    });
+  }
+
+  /**
+   * Runs a side effect when the value resolves to a `Just`. If the side effect returns a
+   * promise, it is awaited before the chain continues.
+   *
+   * @param fn - The function to call with the value.
+   * @returns A new `AsyncMaybe<A>` resolving to the same `Maybe`.
+   */
+  public do(fn: (a: A) => void | PromiseLike<void>): AsyncMaybe<A> {
+    return this.andThen(async (a) => {
+      await fn(a);
+      return just(a);
+    });
+  }
+
+  /**
+   * Runs a side effect when the value resolves to a `Nothing`. If the side effect returns a
+   * promise, it is awaited before the chain continues.
+   *
+   * @param fn - The function to call.
+   * @returns A new `AsyncMaybe<A>` resolving to the same `Maybe`.
+   */
+  public elseDo(fn: () => void | PromiseLike<void>): AsyncMaybe<A> {
+    return new AsyncMaybe(
+      this.promise.then(async (m) => {
+        if (m.isNothing()) {
+          await fn();
+        }
+        return m;
+      })
+    );
+  }
+
+  /**
+   * Performs pattern matching on the resolved `Maybe`.
+   *
+   * @template B - The type of the result produced by the matcher.
+   * @param matcher - A `Catamorphism` whose branches may return a value or a promise of a value.
+   * @returns A promise of the result of the matching branch.
+   *
+   * @example
+   * const message: string = await AsyncMaybe.from(findUser(id)).cata({
+   *   Just: (user) => `Hello, ${user.name}`,
+   *   Nothing: () => "Who are you?",
+   * });
+   */
+  public async cata<B>(
+    matcher: Catamorphism<A, B | PromiseLike<B>>
+  ): Promise<B> {
+    return (await this.promise).cata(matcher);
+  }
+
+  /**
+   * Resolves to the contained value, or to the result of `fn` if this resolves to `Nothing`.
+   *
+   * @param fn - Produces the default value, or a promise of it.
+   * @returns A promise of the value.
+   */
+  public async getOrElse(fn: () => A | PromiseLike<A>): Promise<A> {
+    return this.cata({ Just: (a) => a, Nothing: fn });
+  }
+
+  /**
+   * Resolves to the contained value, or to `defaultValue` if this resolves to `Nothing`.
+   *
+   * @param defaultValue - The default value.
+   * @returns A promise of the value.
+   */
+  public async getOrElseValue(defaultValue: A): Promise<A> {
+    return this.getOrElse(() => defaultValue);
+  }
+
+  /**
+   * Returns the underlying promise of a plain `Maybe`.
+   *
+   * @returns A `Promise<Maybe<A>>`.
+   */
+  public toPromise(): Promise<Maybe<A>> {
+    return this.promise;
+  }
+
+  /**
+   * Implements the async iterator protocol over the eventual value: a `Just` yields its
+   * value once, and a `Nothing` yields nothing.
+   *
+   * @returns An async generator yielding zero or one value.
+   *
+   * @example
+   * for await (const user of AsyncMaybe.from(findUser(id))) {
+   *   console.log(user.name); // Only runs if a user was found
+   * }
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<A, void, unknown> {
+    const maybe = await this.promise;
+    if (maybe.isJust()) {
+      yield maybe.value;
+    }
+  }
+
+  /**
+   * Implements `PromiseLike`, so an `AsyncMaybe` can be `await`ed to get a plain `Maybe`.
+   */
+  public then<R1 = Maybe<A>, R2 = never>(
+    onfulfilled?: ((value: Maybe<A>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+}
+
+export default AsyncMaybe;
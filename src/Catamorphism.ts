@@ -15,4 +15,21 @@ export interface Catamorphism<A, B> {
   Nothing: () => B;
 }
 
+/**
+ * A `Catamorphism` where either case may be left out, with a `_` default branch that handles
+ * any case without its own function.
+ *
+ * @template A - The type of the value contained in the `Just` case.
+ * @template B - The type of the result produced by applying the catamorphism.
+ *
+ * @property Just - (Optional) A function that handles the `Just` case.
+ * @property Nothing - (Optional) A function that handles the `Nothing` case.
+ * @property _ - The default branch, called for a case without its own function.
+ */
+export interface PartialCatamorphism<A, B> {
+  Just?: (value: A) => B;
+  Nothing?: () => B;
+  _: () => B;
+}
+
 export default Catamorphism;
@@ -0,0 +1,50 @@
+/**
+ * A function that decides whether two values are equal.
+ *
+ * @template A - The type of the values being compared.
+ */
+export type Equality<A> = (a: A, b: A) => boolean;
+
+/**
+ * A comparator function, in the style expected by `Array.prototype.sort`.
+ *
+ * It returns a negative number if `a` sorts before `b`, a positive number if `a` sorts
+ * after `b`, and `0` if they are equivalent.
+ *
+ * @template A - The type of the values being compared.
+ */
+export type Ordering<A> = (a: A, b: A) => number;
+
+/**
+ * Where `Nothing` sorts relative to any `Just` when comparing `Maybe` values.
+ */
+export type NothingPlacement = "first" | "last";
+
+/**
+ * The default equality for values contained in a `Maybe`: `Object.is`.
+ */
+export const defaultEquality: Equality<unknown> = Object.is;
+
+/**
+ * The default ordering for values contained in a `Maybe`, using the `<` and `>` operators.
+ *
+ * This works for numbers, strings, bigints, booleans and dates. Provide a custom
+ * `Ordering` for anything else.
+ */
+export const defaultOrdering: Ordering<unknown> = (a, b) => {
+  const x = comparable(a);
+  const y = comparable(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+/**
+ * Narrows a value to something the `<` and `>` operators compare meaningfully. Strings,
+ * numbers and bigints are kept as they are, and anything else, like a boolean or a date,
+ * is converted to a number.
+ */
+const comparable = (value: unknown): string | number | bigint =>
+  typeof value === "string" ||
+  typeof value === "number" ||
+  typeof value === "bigint"
+    ? value
+    : Number(value);
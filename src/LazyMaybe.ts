@@ -0,0 +1,191 @@
+import Catamorphism, { PartialCatamorphism } from "./Catamorphism";
+import Maybe, { just, nothing } from "./Maybe";
+
+/**
+ * A `Maybe`, or a `LazyMaybe` that will produce one when forced.
+ *
+ * @template A - The type of the value that may be present.
+ */
+export type MaybeOrLazy<A> = Maybe<A> | LazyMaybe<A>;
+
+/**
+ * Represents a `Maybe` that is only computed when it is needed.
+ *
+ * A `LazyMaybe` wraps a function producing a `Maybe`. The function is not called until the
+ * `LazyMaybe` is forced, by `force`, `cata`, `getOrElse` or `getOrElseValue`, and its
+ * result is memoized, so it runs at most once. `map`, `andThen`, `orElse` and `filter`
+ * build up a new `LazyMaybe` without forcing anything.
+ *
+ * Create one with `Maybe.lazy` or `LazyMaybe.from`.
+ *
+ * @template A - The type of the value that may be present.
+ *
+ * @example
+ * const cached = Maybe.lazy(() => readCache(key));
+ * const user = cached
+ *   .orElse(() => Maybe.lazy(() => queryDatabase(key)))
+ *   .map((row) => row.user);
+ * // Nothing has been read yet.
+ * user.getOrElseValue(guest); // Reads the cache, and the database only if the cache missed.
+ */
+export class LazyMaybe<A> {
+  /**
+   * Produces the `Maybe`. Cleared once it has been called.
+   */
+  private thunk: (() => Maybe<A>) | undefined;
+  /**
+   * The memoized result of `thunk`.
+   */
+  private result: Maybe<A> | undefined;
+
+  /**
+   * Creates a `LazyMaybe` from a function producing a `Maybe`. See `Maybe.lazy`.
+   *
+   * @template A - The type of the value that may be present.
+   * @param thunk - Produces the `Maybe`. It is called at most once, when the `LazyMaybe` is first forced.
+   * @returns A new `LazyMaybe<A>`.
+   */
+  public static from<A>(thunk: () => MaybeOrLazy<A>): LazyMaybe<A> {
+    return new LazyMaybe(() => force(thunk()));
+  }
+
+  /**
+   * Creates a `LazyMaybe` that is already in the `Just` state.
+   *
+   * @template A - The type of the value.
+   * @param value - The value.
+   * @returns A `LazyMaybe<A>` that forces to `just(value)`.
+   */
+  public static just<A>(value: A): LazyMaybe<A> {
+    return new LazyMaybe(() => just(value));
+  }
+
+  /**
+   * Creates a `LazyMaybe` that is already in the `Nothing` state.
+   *
+   * @template A - The type of the value that would have been present.
+   * @returns A `LazyMaybe<A>` that forces to `nothing()`.
+   */
+  public static nothing<A>(): LazyMaybe<A> {
+    return new LazyMaybe(() => nothing<A>());
+  }
+
+  /**
+   * Creates a new `LazyMaybe` instance.
+   *
+   * @param thunk - Produces the `Maybe`. It is called at most once, when the `LazyMaybe` is first forced.
+   */
+  constructor(thunk: () => Maybe<A>) {
+    this.thunk = thunk;
+  }
+
+  /**
+   * Computes the `Maybe`, or returns it if it has already been computed.
+   *
+   * @returns The `Maybe<A>`.
+   */
+  public force(): Maybe<A> {
+    if (this.thunk) {
+      this.result = this.thunk();
+      this.thunk = undefined;
+    }
+    return this.result as Maybe<A>;
+  }
+
+  /**
+   * Returns `true` if the `Maybe` has been computed.
+   */
+  public isForced(): boolean {
+    return this.thunk === undefined;
+  }
+
+  /**
+   * Lazily applies a function to the value. See `Maybe#map`.
+   *
+   * @template B - The type of the new value.
+   * @param fn - The function to apply to the value.
+   * @returns A new `LazyMaybe<B>`.
+   */
+  public map<B>(fn: (a: A) => B): LazyMaybe<B> {
+    return new LazyMaybe(() => this.force().map(fn));
+  }
+
+  /**
+   * Lazily chains a computation returning a `Maybe` or a `LazyMaybe`. See `Maybe#andThen`.
+   *
+   * @template B - The type of the new value.
+   * @param fn - The function to apply to the value.
+   * @returns A new `LazyMaybe<B>`.
+   */
+  public andThen<B>(fn: (a: A) => MaybeOrLazy<B>): LazyMaybe<B> {
+    return new LazyMaybe(() => this.force().andThen((a) => force(fn(a))));
+  }
+
+  /**
+   * Lazily provides a fallback for `Nothing`. See `Maybe#orElse`.
+   *
+   * The fallback is only computed if this `LazyMaybe` forces to `Nothing`, so a chain of
+   * `orElse` calls tries each candidate in turn, stopping at the first `Just`.
+   *
+   * @param fallback - A `LazyMaybe` to fall back to, or a function producing a `Maybe` or `LazyMaybe`.
+   * @returns A new `LazyMaybe<A>`.
+   *
+   * @example
+   * Maybe.lazy(() => fromCache(key))
+   *   .orElse(Maybe.lazy(() => fromDisk(key)))
+   *   .orElse(() => fromNetwork(key));
+   */
+  public orElse(fallback: LazyMaybe<A> | (() => MaybeOrLazy<A>)): LazyMaybe<A> {
+    return new LazyMaybe(() =>
+      this.force().orElse(() =>
+        force(typeof fallback === "function" ? fallback() : fallback)
+      )
+    );
+  }
+
+  /**
+   * Lazily filters the value with a predicate. See `Maybe#filter`.
+   *
+   * @param predicate - Returns `true` to keep the value.
+   * @returns A new `LazyMaybe<A>`.
+   */
+  public filter(predicate: (a: A) => boolean): LazyMaybe<A> {
+    return new LazyMaybe(() => this.force().filter(predicate));
+  }
+
+  /**
+   * Forces this `LazyMaybe` and performs pattern matching on the result. See `Maybe#cata`.
+   *
+   * @template B - The type of the result.
+   * @param matcher - A `Catamorphism`, or a `PartialCatamorphism` with a `_` default.
+   * @returns The result of the matching branch.
+   */
+  public cata<B>(matcher: Catamorphism<A, B> | PartialCatamorphism<A, B>): B {
+    return this.force().cata(matcher);
+  }
+
+  /**
+   * Forces this `LazyMaybe` and returns the value, or the result of `fn` for `Nothing`.
+   *
+   * @param fn - Produces the default value.
+   * @returns The value, or `fn()`.
+   */
+  public getOrElse(fn: () => A): A {
+    return this.force().getOrElse(fn);
+  }
+
+  /**
+   * Forces this `LazyMaybe` and returns the value, or `defaultValue` for `Nothing`.
+   *
+   * @param defaultValue - The default value.
+   * @returns The value, or `defaultValue`.
+   */
+  public getOrElseValue(defaultValue: A): A {
+    return this.force().getOrElseValue(defaultValue);
+  }
+}
+
+const force = <A>(value: MaybeOrLazy<A>): Maybe<A> =>
+  value instanceof LazyMaybe ? value.force() : value;
+
+export default LazyMaybe;
@@ -1,10 +1,22 @@
-import Catamorphism from "./Catamorphism";
+import Catamorphism, { PartialCatamorphism } from "./Catamorphism";
+import {
+  defaultEquality,
+  defaultOrdering,
+  Equality,
+  NothingPlacement,
+  Ordering,
+} from "./Comparison";
+import LazyMaybe, { MaybeOrLazy } from "./LazyMaybe";
+import NothingError from "./NothingError";
+import { path, PathValue, prop, ValidPath } from "./props";
+import Result, { err, ok } from "./Result";
 
 /**
  * Creates a `Maybe` instance with the given value.
  *
  * This function is a convenience for creating a `Maybe` that may or may not contain a value.
  * If the value is `null`, it will create a `Nothing` instance. Otherwise, it will create a `Just` instance.
+ * Use `fromNullable` to treat `undefined` as absent, too.
  *
  * @template A - The type of the value that may be present.
  * @param value - The value to be wrapped in the `Maybe`. If `null`, the `Maybe` will be in the `Nothing` state.
@@ -15,25 +27,27 @@ import Catamorphism from "./Catamorphism";
  * const nothingMaybe: Maybe<number> = maybe(null); // nothingMaybe is nothing()
  */
 export function maybe<A>(value: A | null): Maybe<A> {
-  return new Maybe(value);
+  return value === null ? new Nothing<A>() : new Just(value);
 }
 
 /**
  * Creates a `Maybe` instance in the `Just` state with the given value.
  *
  * This function is used to create a `Maybe` that explicitly contains a value.
- * It guarantees that the `Maybe` will be in the `Just` state.
+ * It guarantees that the `Maybe` will be in the `Just` state, whatever the value is;
+ * `just(null)` and `just(undefined)` are both `Just`s.
  *
  * @template A - The type of the value to be wrapped in the `Maybe`.
  * @param value - The value to be wrapped in the `Maybe`.
- * @returns A `Maybe<A>` instance in the `Just` state.
+ * @returns A `Just<A>` instance.
  *
  * @example
- * const maybeNumber: Maybe<number> = just(5); // maybeNumber is just(5)
+ * const maybeNumber: Just<number> = just(5); // maybeNumber is just(5)
  * const maybeString: Maybe<string> = just("hello"); // maybeString is just("hello")
+ * const maybeNull: Maybe<null> = just(null); // maybeNull is just(null), not nothing()
  */
-export function just<A>(value: A): Maybe<A> {
-  return new Maybe(value);
+export function just<A>(value: A): Just<A> {
+  return new Just(value);
 }
 
 /**
@@ -42,15 +56,96 @@ export function just<A>(value: A): Maybe<A> {
  * This function is used to create a `Maybe` that explicitly represents the absence of a value.
  * It guarantees that the `Maybe` will be in the `Nothing` state.
  *
+ * When tracing is enabled (see `Maybe.enableTracing`), the `Nothing` records where it was
+ * created, under the given label.
+ *
  * @template A - The type of the value that would have been present if the `Maybe` were in the `Just` state.
- * @returns A `Maybe<A>` instance in the `Nothing` state.
+ * @param label - (Optional) Describes why there is no value, for `explain()` when tracing.
+ * @returns A `Nothing<A>` instance.
  *
  * @example
  * const nothingMaybe: Maybe<number> = nothing(); // nothingMaybe is nothing()
  * const nothingString: Maybe<string> = nothing(); // nothingString is nothing()
+ * const notFound: Maybe<User> = nothing("user not found");
+ */
+export function nothing<A>(label?: string): Nothing<A> {
+  return tracedNothing({ operation: "nothing", label });
+}
+
+/**
+ * Where a `Nothing` came from, as recorded when tracing is enabled. See `Maybe.enableTracing`.
+ */
+export interface Trace {
+  /**
+   * The operation that produced the `Nothing`.
+   */
+  operation: "nothing" | "fromNullable" | "filter" | "andThen" | "assign";
+  /**
+   * The label given to the step, or the name of its function.
+   */
+  label?: string;
+  /**
+   * The key being assigned, for `assign`.
+   */
+  key?: string;
+  /**
+   * The stack trace at the point the `Nothing` was produced.
+   */
+  stack?: string;
+  /**
+   * The trace of the `Nothing` that caused this one, e.g. the `Nothing` returned to `andThen`.
+   */
+  cause?: Trace;
+}
+
+/**
+ * Creates a `Nothing`, recording `origin` as its trace if tracing is enabled.
+ *
+ * This is used by the library's own functions; use `nothing` in application code.
+ *
+ * @template A - The type of the value that would have been present.
+ * @param origin - Describes the operation producing the `Nothing`.
+ * @returns A `Nothing<A>` instance.
+ */
+export function tracedNothing<A>(origin: Omit<Trace, "stack">): Nothing<A> {
+  return new Nothing<A>(
+    tracing ? { ...origin, stack: captureStack() } : undefined
+  );
+}
+
+let tracing = false;
+let deepFreezing = false;
+
+/**
+ * The JSON wire format of a `Maybe`, as produced by `Maybe#toJSON`.
+ *
+ * A `Just` is written as `{ "kind": "Just", "value": ... }` and a `Nothing` as
+ * `{ "kind": "Nothing" }`.
+ *
+ * @template A - The type of the value that may be present.
+ */
+export type MaybeJSON<A> = { kind: "Just"; value: A } | { kind: "Nothing" };
+
+/**
+ * The symbol Node.js (and Bun) look up to format an object in `util.inspect` and `console.log`.
  */
-export function nothing<A>(): Maybe<A> {
-  return new Maybe<A>(null);
+export const inspectSymbol: unique symbol = Symbol.for(
+  "nodejs.util.inspect.custom"
+);
+
+/**
+ * The key of the method that `Maybe.gen` and `AsyncMaybe.gen` use to unwrap a `Maybe` in a
+ * do-notation block. It is kept off `Symbol.iterator`, which iterates over the contained
+ * value, and is not part of the public API.
+ */
+export const doNotation: unique symbol = Symbol("Maybe.doNotation");
+
+/**
+ * The subset of the options Node.js passes to an `inspectSymbol` method that `Maybe` uses.
+ */
+export interface InspectOptions {
+  depth?: number | null;
+  stylize?: (text: string, styleType: string) => string;
 }
 
 /**
@@ -61,14 +156,36 @@ export function nothing<A>(): Maybe<A> {
  * - `Nothing`: Represents the absence of a value.
  *
  * This class provides methods for working with optional values, such as mapping, chaining, and providing default values.
+ * Every `Maybe` is an instance of one of its two subclasses, `Just` or `Nothing`, and carries a
+ * `kind` discriminant. Create them with `just`, `nothing`, `maybe` or `fromNullable`.
+ *
+ * `Maybe` instances are frozen: a `Just` cannot be changed into a different `Just`, or into a
+ * `Nothing`, after it is created. The contained value itself is not frozen unless
+ * `Maybe.enableDeepFreeze` is on. `Maybe` is covariant in `A`, so a `Maybe<Dog>` can be used
+ * where a `Maybe<Animal>` is expected.
  *
  * @template A - The type of the value that may be present.
  */
-export class Maybe<A> {
+export abstract class Maybe<out A> {
+  /**
+   * Where this `Nothing` came from, if it was produced while tracing was enabled.
+   * See `Maybe.enableTracing`. It is not enumerable, so it doesn't affect serialization
+   * or equality.
+   */
+  declare readonly trace?: Trace;
+
+  /**
+   * Identifies whether this `Maybe` is a `Just` or a `Nothing`.
+   */
+  abstract readonly kind: "Just" | "Nothing";
+
   /**
-   * The internal state of the `Maybe`. It is either a value of type `A` or `null`.
+   * The contained value of a `Just`, or `null` for a `Nothing`.
+   *
+   * @deprecated `state` cannot tell `just(null)` apart from `nothing()`. Narrow with `isJust()`
+   * and read `value` instead, or use `getOrElseValue(null)` where a nullable value is needed.
    */
-  state: A | null;
+  abstract get state(): A | null;
 
   /**
    * Creates a `Maybe` instance in the `Just` state with the given value.
@@ -116,12 +233,239 @@ export class Maybe<A> {
   public static maybe = maybe;
 
   /**
-   * Creates a new `Maybe` instance.
+   * The Fantasy Land `Applicative` constructor: wraps a value in a `Just`.
    *
-   * @param value - The value to be wrapped in the `Maybe`. If `null`, the `Maybe` will be in the `Nothing` state.
+   * @see https://github.com/fantasyland/fantasy-land#applicative
+   */
+  public static ["fantasy-land/of"] = just;
+  /**
+   * The Fantasy Land `Plus` identity: a `Nothing`.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#plus
+   */
+  public static ["fantasy-land/zero"] = nothing;
+
+  /**
+   * Creates a `LazyMaybe`, which defers calling `thunk` until the value is needed and then
+   * memoizes the result. See `LazyMaybe`.
+   *
+   * @template A - The type of the value that may be present.
+   * @param thunk - Produces the `Maybe`, or a `LazyMaybe`. It is called at most once.
+   * @returns A new `LazyMaybe<A>`.
+   *
+   * @example
+   * const settings = Maybe.lazy(() => loadSettings()); // loadSettings is not called yet
+   * settings.map((s) => s.theme).getOrElseValue("light"); // Now it is
+   */
+  public static lazy<A>(thunk: () => MaybeOrLazy<A>): LazyMaybe<A> {
+    return LazyMaybe.from(thunk);
+  }
+
+  /**
+   * Turns on tracing, for debugging where a `Nothing` came from.
+   *
+   * While tracing is enabled, each `Nothing` produced by `nothing`, `fromNullable`,
+   * `filter`, `andThen` or `assign` records the operation, its label or key, and a stack
+   * trace. A `Nothing` passing through `map`, `andThen` and the like keeps its original trace.
+   * Read it with `explain()` or `trace`.
+   *
+   * Tracing captures a stack trace for every `Nothing`, so only enable it while debugging.
+   * When it is off, nothing is recorded.
+   *
+   * @example
+   * Maybe.enableTracing();
+   * const result = just(user).filter(isAdult).assign("email", (u) => fromNullable(u.email));
+   * console.log(result.explain());
+   * // Nothing from filter "isAdult"
+   * //     at ...
+   */
+  public static enableTracing(): void {
+    tracing = true;
+  }
+
+  /**
+   * Turns off tracing. See `Maybe.enableTracing`.
+   */
+  public static disableTracing(): void {
+    tracing = false;
+  }
+
+  /**
+   * Returns `true` if tracing is enabled. See `Maybe.enableTracing`.
+   */
+  public static isTracing(): boolean {
+    return tracing;
+  }
+
+  /**
+   * Turns on deep freezing, for catching accidental mutation during development.
+   *
+   * While it is enabled, `just` (and every other way of creating a `Just`) freezes the value
+   * it is given, along with every plain object and array reachable from it. Class instances,
+   * such as `Date` or `Map`, are left alone, since freezing them would break them.
+   *
+   * Freezing walks the whole value, so leave it off in production.
+   *
+   * @example
+   * if (process.env.NODE_ENV !== "production") {
+   *   Maybe.enableDeepFreeze();
+   * }
+   * just({ tags: ["a"] }).do((x) => x.tags.push("b")); // Throws a TypeError
+   */
+  public static enableDeepFreeze(): void {
+    deepFreezing = true;
+  }
+
+  /**
+   * Turns off deep freezing. See `Maybe.enableDeepFreeze`. Values that were already frozen
+   * stay frozen.
+   */
+  public static disableDeepFreeze(): void {
+    deepFreezing = false;
+  }
+
+  /**
+   * Returns `true` if deep freezing is enabled. See `Maybe.enableDeepFreeze`.
+   */
+  public static isDeepFreezing(): boolean {
+    return deepFreezing;
+  }
+
+  /**
+   * Runs a generator-based "do-notation" block.
+   *
+   * The block receives a `bind` function. Inside the block, `yield* bind(maybe)` unwraps a
+   * `Maybe`: a `Just` evaluates to its value, while a `Nothing` short-circuits the whole
+   * block, which then evaluates to `Nothing`. The value returned from the block is wrapped
+   * in a `Just`.
+   *
+   * This avoids both nested `andThen` calls and the string-keyed scope object that
+   * `assign` requires, while keeping full type inference for each bound value.
+   *
+   * Earlier versions unwrapped with `yield* maybe` directly. That is no longer supported, as
+   * iterating a `Maybe` is reserved for its contents.
+   *
+   * @template T - The type of the value returned from the block.
+   * @param body - A generator function that `yield*`s `bind(maybe)` for each `Maybe` and returns a result.
+   * @returns A `Maybe<T>` containing the returned value, or `Nothing` if any bound `Maybe` was `Nothing`.
+   *
+   * @example
+   * const result: Maybe<number> = Maybe.gen(function* (bind) {
+   *   const a = yield* bind(just(1));
+   *   const b = yield* bind(just(a + 1));
+   *   return a + b;
+   * }); // result is just(3)
+   *
+   * const result2: Maybe<number> = Maybe.gen(function* (bind) {
+   *   const a = yield* bind(just(1));
+   *   const b = yield* bind(nothing<number>()); // the block stops here
+   *   return a + b;
+   * }); // result2 is nothing()
+   */
+  public static gen<T>(
+    body: (
+      bind: <B>(maybe: Maybe<B>) => Generator<Maybe<B>, B, unknown>
+    ) => Generator<Maybe<unknown>, T, unknown>
+  ): Maybe<T> {
+    const iterator = body((maybe) => maybe[doNotation]());
+    let step = iterator.next();
+    while (!step.done) {
+      const yielded = step.value as Maybe<unknown>;
+      if (!yielded.isJust()) {
+        iterator.return(undefined as T);
+        return propagate(yielded);
+      }
+      step = iterator.next(yielded.value);
+    }
+    return just(step.value as T);
+  }
+
+  /**
+   * Converts a `MaybeJSON` object back into a `Maybe`.
+   *
+   * Any `Maybe`s nested inside the value, in either their JSON or structurally cloned form,
+   * are revived as well.
+   *
+   * @template A - The type of the value that may be present.
+   * @param json - An object in the `MaybeJSON` wire format.
+   * @returns The corresponding `Maybe<A>`.
+   * @throws {TypeError} If `json` is not in the `MaybeJSON` wire format.
+   *
+   * @example
+   * const maybeNumber: Maybe<number> = Maybe.fromJSON({ kind: "Just", value: 5 }); // maybeNumber is just(5)
+   * const nothingMaybe: Maybe<number> = Maybe.fromJSON({ kind: "Nothing" }); // nothingMaybe is nothing()
+   */
+  public static fromJSON<A>(json: MaybeJSON<A>): Maybe<A> {
+    if (!isMaybeJSON(json)) {
+      throw new TypeError(`Not a serialized Maybe: ${JSON.stringify(json)}`);
+    }
+    return reviveValue(json) as Maybe<A>;
+  }
+
+  /**
+   * A reviver for `JSON.parse` that turns every object in the `MaybeJSON` wire format back
+   * into a `Maybe`, at any depth.
+   *
+   * @param key - The key being revived (unused).
+   * @param value - The parsed value.
+   * @returns A `Maybe` if `value` is in the `MaybeJSON` wire format, otherwise `value` unchanged.
+   *
+   * @example
+   * const payload = JSON.stringify({ user: just({ name: "Ann", nickname: nothing() }) });
+   * const parsed = JSON.parse(payload, Maybe.reviver);
+   * // parsed is { user: just({ name: "Ann", nickname: nothing() }) }
+   */
+  public static reviver(key: string, value: unknown): unknown {
+    return isMaybeJSON(value) ? fromMaybeJSON(value) : value;
+  }
+
+  /**
+   * Rehydrates `Maybe`s that have lost their prototype, e.g. after `structuredClone` or
+   * `postMessage`, or after a `JSON.parse` without `Maybe.reviver`.
+   *
+   * Arrays and plain objects are walked recursively and copied; objects in the `MaybeJSON`
+   * wire format (which is also the shape of a structurally cloned `Maybe`, since `kind` and
+   * `value` are its only own properties) are turned back into real `Maybe` instances. Other
+   * values are returned unchanged.
+   *
+   * @template T - The expected type of the revived value.
+   * @param value - The structurally cloned value.
+   * @returns A copy of `value` with real `Maybe` instances.
+   *
+   * @example
+   * const cloned = structuredClone({ id: 1, parent: just(2) });
+   * const revived = Maybe.revive<{ id: number; parent: Maybe<number> }>(cloned);
+   * revived.parent.map((x) => x + 1); // just(3)
+   */
+  public static revive<T = unknown>(value: unknown): T {
+    return reviveValue(value) as T;
+  }
+
+  /**
+   * A replacer for `JSON.stringify` that writes each `Maybe` in plain nullable form: a
+   * `Just` as its value, and a `Nothing` as `null`. Values written this way can be read
+   * back with `fromNullable`.
+   *
+   * @param key - The key being serialized.
+   * @param value - The value being serialized (after `toJSON`).
+   * @returns The value to serialize.
+   *
+   * @example
+   * JSON.stringify({ a: just(5), b: nothing() }, Maybe.nullableReplacer); // '{"a":5,"b":null}'
    */
-  constructor(value: A | null) {
-    this.state = value;
+  public static nullableReplacer(
+    this: unknown,
+    key: string,
+    value: unknown
+  ): unknown {
+    let original = (this as Record<string, unknown>)[key];
+    if (!(original instanceof Maybe)) {
+      return value;
+    }
+    while (original instanceof Maybe) {
+      original = original.isJust() ? original.value : null;
+    }
+    return original;
   }
 
   /**
@@ -140,9 +484,15 @@ export class Maybe<A> {
    *
    * const nothingMaybe: Maybe<number> = nothing();
    * const defaultNumber: number = nothingMaybe.getOrElse(() => 10); // defaultNumber is 10
+   *
+   * @example
+   * // The default may be of a different type, widening the result
+   * const label: string | null = findLabel().getOrElse(() => null);
    */
-  public getOrElse(fn: () => A): A {
-    return this.state === null ? fn() : this.state;
+  public getOrElse(fn: () => A): A;
+  public getOrElse<B>(fn: () => B): A | B;
+  public getOrElse<B>(fn: () => A | B): A | B {
+    return this.isJust() ? this.value : fn();
   }
 
   /**
@@ -161,11 +511,87 @@ export class Maybe<A> {
    *
    * const nothingMaybe: Maybe<number> = nothing();
    * const defaultNumber: number = nothingMaybe.getOrElseValue(10); // defaultNumber is 10
+   *
+   * @example
+   * // The default may be of a different type, widening the result
+   * const count: number | "unknown" = findCount().getOrElseValue("unknown");
    */
-  public getOrElseValue(defaultValue: A): A {
+  public getOrElseValue(defaultValue: A): A;
+  public getOrElseValue<B>(defaultValue: B): A | B;
+  public getOrElseValue<B>(defaultValue: A | B): A | B {
     return this.getOrElse(() => defaultValue);
   }
 
+  /**
+   * Returns the value if this `Maybe` is a `Just`, otherwise throws.
+   *
+   * Use this at system boundaries, where a missing value is a bug rather than an expected case.
+   *
+   * @param errorFactory - (Optional) Produces the error to throw. Defaults to a `NothingError`.
+   * @returns The value contained within the `Maybe`.
+   * @throws The result of `errorFactory()`, or a `NothingError`, if this `Maybe` is `Nothing`.
+   *
+   * @example
+   * const config = loadConfig().getOrThrow(); // Throws a NothingError if there is no config
+   * const user = findUser(id).getOrThrow(() => new NotFoundError(`No user ${id}`));
+   */
+  public getOrThrow(errorFactory?: () => unknown): A {
+    if (this.isJust()) {
+      return this.value;
+    }
+    throw errorFactory
+      ? errorFactory()
+      : new NothingError(undefined, this.trace);
+  }
+
+  /**
+   * Returns the value if this `Maybe` is a `Just`, otherwise throws a `NothingError` with the
+   * given message.
+   *
+   * The message should say what was expected, so the error explains itself.
+   *
+   * @param message - Describes the value that was expected.
+   * @returns The value contained within the `Maybe`.
+   * @throws A `NothingError` with `message`, if this `Maybe` is `Nothing`.
+   *
+   * @example
+   * const port = fromNullable(process.env.PORT).expect("PORT must be set");
+   */
+  public expect(message: string): A {
+    if (this.isJust()) {
+      return this.value;
+    }
+    throw new NothingError(message, this.trace);
+  }
+
+  /**
+   * Returns the value if this `Maybe` is a `Just`, otherwise `undefined`.
+   *
+   * Use this to hand the value to code that expects an optional property or parameter.
+   *
+   * @returns The value contained within the `Maybe`, or `undefined`.
+   *
+   * @example
+   * render({ title: findTitle().getOrUndefined() });
+   */
+  public getOrUndefined(): A | undefined {
+    return this.isJust() ? this.value : undefined;
+  }
+
+  /**
+   * Returns the value if this `Maybe` is a `Just`, otherwise `null`.
+   *
+   * Use this to hand the value to code that expects a nullable value, such as a database column.
+   *
+   * @returns The value contained within the `Maybe`, or `null`.
+   *
+   * @example
+   * db.update({ email: findEmail().getOrNull() });
+   */
+  public getOrNull(): A | null {
+    return this.isJust() ? this.value : null;
+  }
+
   /**
    * Applies a function to the value inside the `Maybe` if it's a `Just`, otherwise returns `Nothing`.
    *
@@ -185,7 +611,7 @@ export class Maybe<A> {
    * const nothingString: Maybe<string> = nothingMaybe.map((x) => x.toString()); // nothingString is nothing()
    */
   public map<B>(fn: (a: A) => B): Maybe<B> {
-    return this.state === null ? nothing() : just(fn(this.state));
+    return this.isJust() ? just(fn(this.value)) : propagate(this);
   }
 
   /**
@@ -213,8 +639,11 @@ export class Maybe<A> {
    * applied to the value, and the resulting `Maybe` is returned. If the input `Maybe` is `Nothing`, it returns `Nothing` without
    * applying the function. This is often referred to as "monadic chaining" or "flatMap" in other contexts.
    *
+   * When tracing is enabled, a `Nothing` returned by `fn` is recorded as coming from this step.
+   *
    * @template B - The type of the value contained within the output `Maybe` after applying the function.
    * @param fn - The function to apply to the value inside the `Maybe`. It takes a value of type `A` and returns a `Maybe<B>`.
+   * @param label - (Optional) Names this step when tracing. Defaults to the name of `fn`.
    * @returns The `Maybe<B>` resulting from applying `fn` to the value (if it's a `Just`) or `Nothing` (if it's `Nothing`).
    *
    * @example
@@ -227,8 +656,18 @@ export class Maybe<A> {
    * const maybeNumber2: Maybe<number> = just(5);
    * const nothingString2: Maybe<string> = maybeNumber2.andThen((x) => nothing<string>()); // nothingString2 is nothing()
    */
-  public andThen<B>(fn: (a: A) => Maybe<B>): Maybe<B> {
-    return this.state === null ? nothing() : fn(this.state);
+  public andThen<B>(fn: (a: A) => Maybe<B>, label?: string): Maybe<B> {
+    if (!this.isJust()) {
+      return propagate(this);
+    }
+    const result = fn(this.value);
+    return tracing && result.isNothing()
+      ? tracedNothing({
+          operation: "andThen",
+          label: label ?? (fn.name || undefined),
+          cause: result.trace,
+        })
+      : result;
   }
 
   /**
@@ -251,7 +690,44 @@ export class Maybe<A> {
    * const result3: Maybe<number> = nothingMaybe2.orElse(() => nothing()); // result3 is nothing()
    */
   public orElse(fn: () => Maybe<A>): Maybe<A> {
-    return this.state === null ? fn() : this;
+    return this.isJust() ? this : fn();
+  }
+
+  /**
+   * Returns this `Maybe` if it's a `Just`, otherwise `other`.
+   *
+   * This is the eager form of `orElse`, for when the fallback is already at hand.
+   *
+   * @param other - The `Maybe` to return if this `Maybe` is `Nothing`.
+   * @returns This `Maybe` (if it's a `Just`) or `other`.
+   *
+   * @example
+   * just(5).or(just(10)); // just(5)
+   * nothing<number>().or(just(10)); // just(10)
+   * nothing<number>().or(nothing()); // nothing()
+   */
+  public or(other: Maybe<A>): Maybe<A> {
+    return this.isJust() ? this : other;
+  }
+
+  /**
+   * Returns whichever of this `Maybe` and `other` is a `Just`, if exactly one of them is;
+   * otherwise returns `Nothing`.
+   *
+   * @param other - The `Maybe` to compare with.
+   * @returns This `Maybe` or `other` if exactly one is a `Just`, or `Nothing` if both or neither are.
+   *
+   * @example
+   * just(5).xor(nothing()); // just(5)
+   * nothing<number>().xor(just(10)); // just(10)
+   * just(5).xor(just(10)); // nothing()
+   * nothing<number>().xor(nothing()); // nothing()
+   */
+  public xor(other: Maybe<A>): Maybe<A> {
+    if (this.isJust()) {
+      return other.isJust() ? nothing() : this;
+    }
+    return other.isJust() ? other : this;
   }
 
   /**
@@ -262,8 +738,10 @@ export class Maybe<A> {
    * If the `Maybe` is `Just`, the `Just` function from the `Catamorphism` is called with the contained value.
    * If the `Maybe` is `Nothing`, the `Nothing` function from the `Catamorphism` is called.
    *
+   * A `PartialCatamorphism` may leave out either case, handling it with its `_` default branch instead.
+   *
    * @template B - The type of the result produced by the `Catamorphism` functions.
-   * @param matcher - A `Catamorphism` object containing `Just` and `Nothing` functions.
+   * @param matcher - A `Catamorphism` object containing `Just` and `Nothing` functions, or a `PartialCatamorphism` with a `_` default.
    * @returns The result of applying the appropriate function from `matcher` to this `Maybe`.
    *
    * @example
@@ -278,10 +756,116 @@ export class Maybe<A> {
    *   Just: (x) => `The value is ${x}`,
    *   Nothing: () => "There is no value",
    * }); // nothingResult is "There is no value"
+   *
+   * const isAdmin: boolean = maybeRole.cata({
+   *   Just: (role) => role === "admin",
+   *   _: () => false,
+   * });
+   */
+  public cata<B>(matcher: Catamorphism<A, B> | PartialCatamorphism<A, B>): B {
+    if (this.isJust()) {
+      return matcher.Just
+        ? matcher.Just(this.value)
+        : (matcher as PartialCatamorphism<A, B>)._();
+    }
+    return matcher.Nothing
+      ? matcher.Nothing()
+      : (matcher as PartialCatamorphism<A, B>)._();
+  }
+
+  /**
+   * Folds this `Maybe` into a single value: `onJust` is applied to the value of a `Just`, and
+   * `onNothing` is called for a `Nothing`. This is `cata` with positional arguments.
+   *
+   * @template B - The type of the result.
+   * @param onNothing - Produces the result for a `Nothing`.
+   * @param onJust - Produces the result from the value of a `Just`.
+   * @returns The result of `onJust(value)` or `onNothing()`.
+   *
+   * @example
+   * just(5).fold(() => "none", (x) => `got ${x}`); // "got 5"
+   * nothing<number>().fold(() => "none", (x) => `got ${x}`); // "none"
+   */
+  public fold<B>(onNothing: () => B, onJust: (a: A) => B): B {
+    return this.isJust() ? onJust(this.value) : onNothing();
+  }
+
+  /**
+   * Applies a function to the value of a `Just` and returns the result, or returns a default
+   * value for a `Nothing`. This is a shorthand for `map(fn).getOrElseValue(defaultValue)`.
+   *
+   * @template B - The type of the result.
+   * @param defaultValue - The result for a `Nothing`.
+   * @param fn - The function to apply to the value of a `Just`.
+   * @returns `fn(value)`, or `defaultValue`.
+   *
+   * @example
+   * just("ada").mapOr(0, (s) => s.length); // 3
+   * nothing<string>().mapOr(0, (s) => s.length); // 0
    */
+  public mapOr<B>(defaultValue: B, fn: (a: A) => B): B {
+    return this.isJust() ? fn(this.value) : defaultValue;
+  }
+
+  /**
+   * Applies a function to the value of a `Just` and returns the result, or computes a default
+   * for a `Nothing`. Use this instead of `mapOr` when the default is expensive to compute.
+   *
+   * @template B - The type of the result.
+   * @param defaultFn - Produces the result for a `Nothing`.
+   * @param fn - The function to apply to the value of a `Just`.
+   * @returns `fn(value)`, or `defaultFn()`.
+   *
+   * @example
+   * findUser(id).mapOrElse(() => guestName(), (user) => user.name);
+   */
+  public mapOrElse<B>(defaultFn: () => B, fn: (a: A) => B): B {
+    return this.isJust() ? fn(this.value) : defaultFn();
+  }
+
+  /**
+   * Reads a property of the contained value, using `fromNullable`. A missing or `null`
+   * property gives `Nothing`, as does a numeric key outside the bounds of an array.
+   *
+   * The key is checked against the type of the contained value at compile time.
+   *
+   * @template T - The type of the contained value.
+   * @template K - The type of the key.
+   * @param key - The key or array index to read.
+   * @returns A `Maybe` of the property's value, or `Nothing`.
+   *
+   * @example
+   * just({ name: "Ada", email: null }).prop("name"); // just("Ada")
+   * just({ name: "Ada", email: null }).prop("email"); // nothing()
+   */
+  public prop<T, K extends keyof NonNullable<T>>(
+    this: Maybe<T>,
+    key: K
+  ): Maybe<PathValue<T, [K]>> {
+    return this.andThen((a) => prop(key, a));
+  }
 
-  public cata<B>(matcher: Catamorphism<A, B>): B {
-    return this.state === null ? matcher.Nothing() : matcher.Just(this.state);
+  /**
+   * Follows a path of keys and array indices into the contained value. A missing or `null`
+   * value anywhere along the path gives `Nothing`, as does a numeric step outside the bounds
+   * of an array.
+   *
+   * The path is checked against the type of the contained value at compile time, and the type
+   * of the result is inferred from it.
+   *
+   * @template T - The type of the contained value.
+   * @template P - The path, as a tuple of keys and indices.
+   * @param keys - The path to follow.
+   * @returns A `Maybe` of the value at the end of the path, or `Nothing`.
+   *
+   * @example
+   * fetchPayload().path(["user", "addresses", 0, "city"]); // Maybe<string>
+   */
+  public path<T, const P extends readonly PropertyKey[]>(
+    this: Maybe<T>,
+    keys: P & ValidPath<T, P>
+  ): Maybe<PathValue<T, P>> {
+    return this.andThen((a) => path<T, P>(keys, a));
   }
 
   /**
@@ -319,16 +903,20 @@ export class Maybe<A> {
     k: K,
     other: Maybe<B> | ((a: A) => Maybe<B>)
   ): Maybe<A & { [k in K]: B }> {
-    if (this.state === null) {
-      return nothing();
+    if (!this.isJust()) {
+      return propagate(this);
     }
-    if (typeof this.state !== "object" || this.state === null) {
-      return nothing();
+    const state = this.value;
+    if (typeof state !== "object" || state === null) {
+      return tracedNothing({ operation: "assign", key: k });
+    }
+    const maybe = typeof other === "function" ? other(state) : other;
+    if (tracing && maybe.isNothing()) {
+      return tracedNothing({ operation: "assign", key: k, cause: maybe.trace });
     }
-    const maybe = typeof other === "function" ? other(this.state) : other;
     return maybe.map<A & { [k in K]: B }>((b) => {
       const newState = {
-        ...this.state,
+        ...state,
         [k]: b,
       };
       return newState as A & { [k in K]: B };
@@ -360,8 +948,8 @@ export class Maybe<A> {
    * nothing().do((x) => console.log(`The value is ${x}`)); // Does not log anything
    */
   public do(fn: (a: A) => void): Maybe<A> {
-    if (this.state !== null) {
-      fn(this.state);
+    if (this.isJust()) {
+      fn(this.value);
     }
     return this;
   }
@@ -381,7 +969,7 @@ export class Maybe<A> {
    * just(5).elseDo(() => console.log("There is nothing here")); // Does not log anything
    */
   public elseDo(fn: () => void): Maybe<A> {
-    if (this.state === null) {
+    if (this.isNothing()) {
       fn();
     }
     return this;
@@ -390,48 +978,47 @@ export class Maybe<A> {
   /**
    * Returns `true` if the `Maybe` is a `Just`.
    *
-   * This method also acts as a type guard, narrowing the type of the `Maybe` to `Maybe<A> & { state: A }`
-   * when it returns `true`.
+   * This method also acts as a type guard, narrowing the type of the `Maybe` to `Just<A>`,
+   * with a non-optional `value`, when it returns `true`.
    *
    * @returns `true` if the `Maybe` is a `Just`, `false` otherwise.
    *
    * @example
    * const maybeNumber: Maybe<number> = just(5);
    * if (maybeNumber.isJust()) {
-   *   console.log(maybeNumber.state); // Safe to access `state` here because of the type guard
+   *   console.log(maybeNumber.value); // Safe to access `value` here because of the type guard
    * }
    *
    * const nothingMaybe: Maybe<number> = nothing();
    * if (nothingMaybe.isJust()) {
-   *   console.log(nothingMaybe.state); // This code will not be executed
+   *   console.log(nothingMaybe.value); // This code will not be executed
    * }
    */
-  public isJust(): this is Maybe<A> & { state: A } {
-    return this.state !== null;
+  public isJust(): this is Just<A> {
+    return this.kind === "Just";
   }
 
   /**
    * Returns `true` if the `Maybe` is a `Nothing`.
    *
-   * This method also acts as a type guard, narrowing the type of the `Maybe` to `Maybe<A> & { state: null }`
-   * when it returns `true`. This allows you to safely assume that the `state` property is `null` within
-   * conditional blocks where `isNothing()` returns `true`.
+   * This method also acts as a type guard, narrowing the type of the `Maybe` to `Nothing<A>`
+   * when it returns `true`.
    *
    * @returns `true` if the `Maybe` is a `Nothing`, `false` otherwise.
    *
    * @example
    * const maybeNumber: Maybe<number> = nothing();
    * if (maybeNumber.isNothing()) {
-   *   console.log(maybeNumber.state); // Safe to access `state` here, and it will be `null`
+   *   console.log("There is no value"); // maybeNumber is a Nothing<number> here
    * }
    *
    * const justMaybe: Maybe<number> = just(5);
    * if (justMaybe.isNothing()) {
-   *   console.log(justMaybe.state); // This code will not be executed
+   *   console.log("There is no value"); // This code will not be executed
    * }
    */
-  public isNothing(): this is Maybe<A> & { state: null } {
-    return this.state === null;
+  public isNothing(): this is Nothing<A> {
+    return this.kind === "Nothing";
   }
 
   /**
@@ -444,6 +1031,7 @@ export class Maybe<A> {
    * This method is useful for conditionally keeping or discarding a value within a `Maybe` chain.
    *
    * @param predicate - A function that takes the contained value (if present) and returns `true` to keep the value or `false` to discard it.
+   * @param label - (Optional) Names this step when tracing. Defaults to the name of `predicate`.
    * @returns The original `Maybe` if it's `Just` and the predicate returns `true`, `Nothing` otherwise.
    *
    * @example
@@ -455,8 +1043,14 @@ export class Maybe<A> {
    * const nothingMaybe: Maybe<number> = nothing();
    * const filteredNothing: Maybe<number> = nothingMaybe.filter((x) => x > 3); // filteredNothing is nothing()
    */
-  public filter(predicate: (a: A) => boolean): Maybe<A> {
-    return this.exists(predicate) ? this : nothing();
+  public filter(predicate: (a: A) => boolean, label?: string): Maybe<A> {
+    if (!this.isJust() || predicate(this.value)) {
+      return this;
+    }
+    return tracedNothing({
+      operation: "filter",
+      label: label ?? (predicate.name || undefined),
+    });
   }
 
   /**
@@ -481,7 +1075,7 @@ export class Maybe<A> {
    * const exists3: boolean = nothingMaybe.exists((x) => x > 3); // exists3 is false
    */
   public exists(predicate: (a: A) => boolean): boolean {
-    return this.state !== null && predicate(this.state);
+    return this.isJust() && predicate(this.value);
   }
 
   /**
@@ -508,8 +1102,893 @@ export class Maybe<A> {
    * const result3: Maybe<number> = nothingMaybe2.ap(maybeAdd); // result3 is nothing()
    */
   public ap<B>(maybeFn: Maybe<(a: A) => B>): Maybe<B> {
-    return maybeFn.isJust() ? this.map(maybeFn.state) : nothing();
+    return maybeFn.isJust() ? this.map(maybeFn.value) : propagate(maybeFn);
   }
-}
+
+  /**
+   * Combines this `Maybe` with another using a function of two arguments.
+   *
+   * If both are `Just`, `fn` is applied to both values and the result is wrapped in a `Just`.
+   * Otherwise, `Nothing` is returned and `fn` is not called.
+   *
+   * @template B - The type of the value contained within `other`.
+   * @template C - The type of the value returned by `fn`.
+   * @param other - The second `Maybe`.
+   * @param fn - The function to apply to both values.
+   * @returns A new `Maybe<C>` with the result of `fn`, or `Nothing`.
+   *
+   * @example
+   * just(2).map2(just(3), (a, b) => a * b); // just(6)
+   * just(2).map2(nothing<number>(), (a, b) => a * b); // nothing()
+   */
+  public map2<B, C>(other: Maybe<B>, fn: (a: A, b: B) => C): Maybe<C> {
+    return this.andThen((a) => other.map((b) => fn(a, b)));
+  }
+
+  /**
+   * Combines this `Maybe` with two others using a function of three arguments.
+   *
+   * If all three are `Just`, `fn` is applied to the values and the result is wrapped in a `Just`.
+   * Otherwise, `Nothing` is returned and `fn` is not called.
+   *
+   * @template B - The type of the value contained within `mb`.
+   * @template C - The type of the value contained within `mc`.
+   * @template D - The type of the value returned by `fn`.
+   * @param mb - The second `Maybe`.
+   * @param mc - The third `Maybe`.
+   * @param fn - The function to apply to the three values.
+   * @returns A new `Maybe<D>` with the result of `fn`, or `Nothing`.
+   *
+   * @example
+   * just(1).map3(just(2), just(3), (a, b, c) => a + b + c); // just(6)
+   */
+  public map3<B, C, D>(
+    mb: Maybe<B>,
+    mc: Maybe<C>,
+    fn: (a: A, b: B, c: C) => D
+  ): Maybe<D> {
+    return this.andThen((a) => mb.andThen((b) => mc.map((c) => fn(a, b, c))));
+  }
+
+  /**
+   * Pairs the value of this `Maybe` with the value of another.
+   *
+   * If both are `Just`, returns a `Just` of a tuple of both values. Otherwise, returns `Nothing`.
+   *
+   * @template B - The type of the value contained within `other`.
+   * @param other - The second `Maybe`.
+   * @returns A new `Maybe<[A, B]>`.
+   *
+   * @example
+   * just(1).zip(just("a")); // just([1, "a"])
+   * just(1).zip(nothing<string>()); // nothing()
+   */
+  public zip<B>(other: Maybe<B>): Maybe<[A, B]> {
+    return this.map2(other, (a, b): [A, B] => [a, b]);
+  }
+
+  /**
+   * Combines the value of this `Maybe` with the value of another using a function.
+   *
+   * This is `zip` followed by `map`, without building the intermediate tuple. It is the same
+   * as `map2`.
+   *
+   * @template B - The type of the value contained within `other`.
+   * @template C - The type of the value returned by `fn`.
+   * @param other - The second `Maybe`.
+   * @param fn - The function to apply to both values.
+   * @returns A new `Maybe<C>` with the result of `fn`, or `Nothing`.
+   *
+   * @example
+   * findWidth().zipWith(findHeight(), (w, h) => w * h); // the area, if both are known
+   */
+  public zipWith<B, C>(other: Maybe<B>, fn: (a: A, b: B) => C): Maybe<C> {
+    return this.map2(other, fn);
+  }
+
+  /**
+   * Splits a `Maybe` of a pair into a pair of `Maybe`s. This is the inverse of `zip`.
+   *
+   * A `Just` of a pair becomes a pair of `Just`s; `Nothing` becomes a pair of `Nothing`s.
+   *
+   * @template B - The type of the first element of the pair.
+   * @template C - The type of the second element of the pair.
+   * @returns A tuple `[Maybe<B>, Maybe<C>]`.
+   *
+   * @example
+   * just([1, "a"] as [number, string]).unzip(); // [just(1), just("a")]
+   * nothing<[number, string]>().unzip(); // [nothing(), nothing()]
+   */
+  public unzip<B, C>(this: Maybe<[B, C]>): [Maybe<B>, Maybe<C>] {
+    return [this.map(([b]) => b), this.map(([, c]) => c)];
+  }
+
+  /**
+   * Checks whether this `Maybe` is structurally equal to another `Maybe`.
+   *
+   * Two `Nothing`s are equal. Two `Just`s are equal if their contained values are equal
+   * according to `eq`, which defaults to `Object.is`. A `Just` never equals a `Nothing`.
+   *
+   * @param other - The `Maybe` to compare against.
+   * @param eq - (Optional) The equality used for the contained values. Defaults to `Object.is`.
+   * @returns `true` if both `Maybe`s are equal, `false` otherwise.
+   *
+   * @example
+   * just(5).equals(just(5)); // true
+   * just(5).equals(nothing()); // false
+   * nothing().equals(nothing()); // true
+   * just({ id: 1 }).equals(just({ id: 1 }), (a, b) => a.id === b.id); // true
+   */
+  public equals(other: Maybe<A>, eq: Equality<A> = defaultEquality): boolean {
+    if (this.isJust() && other.isJust()) {
+      return eq(this.value, other.value);
+    }
+    return this.kind === other.kind;
+  }
+
+  /**
+   * Compares this `Maybe` to another `Maybe`, for use in sorting.
+   *
+   * `Nothing` is equivalent to `Nothing`, and sorts before any `Just` (or after, when
+   * `placement` is `"last"`). Two `Just`s are compared using `ord`, which defaults to the
+   * `<` and `>` operators.
+   *
+   * @param other - The `Maybe` to compare against.
+   * @param ord - (Optional) The ordering used for the contained values.
+   * @param placement - (Optional) Whether `Nothing` sorts `"first"` (the default) or `"last"`.
+   * @returns A negative number if this sorts before `other`, a positive number if it sorts after, `0` otherwise.
+   *
+   * @example
+   * just(1).compare(just(2)); // -1
+   * nothing<number>().compare(just(2)); // -1
+   * nothing<number>().compare(just(2), undefined, "last"); // 1
+   * [just(3), nothing(), just(1)].sort((a, b) => a.compare(b)); // [nothing(), just(1), just(3)]
+   */
+  public compare(
+    other: Maybe<A>,
+    ord: Ordering<A> = defaultOrdering,
+    placement: NothingPlacement = "first"
+  ): number {
+    if (this.isJust() && other.isJust()) {
+      return ord(this.value, other.value);
+    }
+    if (this.kind === other.kind) {
+      return 0;
+    }
+    const nothingFirst = placement === "first" ? -1 : 1;
+    return this.isNothing() ? nothingFirst : -nothingFirst;
+  }
+
+  /**
+   * Checks whether this `Maybe` is a `Just` containing the given value.
+   *
+   * @param value - The value to look for.
+   * @param eq - (Optional) The equality used for the contained value. Defaults to `Object.is`.
+   * @returns `true` if this is a `Just` whose value equals `value`, `false` otherwise.
+   *
+   * @example
+   * just(5).contains(5); // true
+   * just(5).contains(6); // false
+   * nothing<number>().contains(5); // false
+   */
+  public contains(value: A, eq: Equality<A> = defaultEquality): boolean {
+    return this.isJust() && eq(this.value, value);
+  }
+
+  /**
+   * Returns a stable string key describing this `Maybe` and its contents.
+   *
+   * The key is structural: arrays, plain objects (with their keys sorted), `Map`s and `Set`s
+   * (with their entries sorted), dates and nested `Maybe`s are encoded by content, while
+   * primitives are tagged with their type so that `just(1)` and `just("1")` get different
+   * keys. Functions, unregistered symbols and other class instances are encoded by identity,
+   * and cycles by the ancestor they point back to. This makes the key suitable for deduping
+   * arrays of `Maybe`s, or for using `Maybe`s as `Map` keys.
+   *
+   * @returns A string key; `"Nothing"` for a `Nothing`.
+   *
+   * @example
+   * just(5).hashKey(); // 'Just(number:5)'
+   * just({ b: 1, a: 2 }).hashKey() === just({ a: 2, b: 1 }).hashKey(); // true
+   * nothing().hashKey(); // 'Nothing'
+   *
+   * const unique = new Map(maybes.map((m) => [m.hashKey(), m])).values();
+   */
+  public hashKey(): string {
+    return this.isJust() ? `Just(${hashValue(this.value)})` : "Nothing";
+  }
+
+  /**
+   * Passes this `Maybe` through a sequence of functions, from left to right.
+   *
+   * `m.pipe(f, g)` is `g(f(m))`, the same as `pipe(m, f, g)`. It lets the curried functions of
+   * this library, or your own, be used in a method chain. The types are inferred at every step
+   * for up to 12 functions.
+   *
+   * @param fns - The functions to apply, in order. The first receives this `Maybe`.
+   * @returns The result of the last function.
+   *
+   * @example
+   * const label: string = fromNullable(user.nickname).pipe(
+   *   map((name: string) => name.trim()),
+   *   filter((name: string) => name.length > 0),
+   *   getOrElseValue("anonymous")
+   * );
+   */
+  public pipe<B>(ab: (a: Maybe<A>) => B): B;
+  public pipe<B, C>(ab: (a: Maybe<A>) => B, bc: (b: B) => C): C;
+  public pipe<B, C, D>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D
+  ): D;
+  public pipe<B, C, D, E>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E
+  ): E;
+  public pipe<B, C, D, E, F>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F
+  ): F;
+  public pipe<B, C, D, E, F, G>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G
+  ): G;
+  public pipe<B, C, D, E, F, G, H>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H
+  ): H;
+  public pipe<B, C, D, E, F, G, H, I>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I
+  ): I;
+  public pipe<B, C, D, E, F, G, H, I, J>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J
+  ): J;
+  public pipe<B, C, D, E, F, G, H, I, J, K>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K
+  ): K;
+  public pipe<B, C, D, E, F, G, H, I, J, K, L>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L
+  ): L;
+  public pipe<B, C, D, E, F, G, H, I, J, K, L, M>(
+    ab: (a: Maybe<A>) => B,
+    bc: (b: B) => C,
+    cd: (c: C) => D,
+    de: (d: D) => E,
+    ef: (e: E) => F,
+    fg: (f: F) => G,
+    gh: (g: G) => H,
+    hi: (h: H) => I,
+    ij: (i: I) => J,
+    jk: (j: J) => K,
+    kl: (k: K) => L,
+    lm: (l: L) => M
+  ): M;
+  public pipe(...fns: ((x: never) => unknown)[]): unknown {
+    return fns.reduce((acc, fn) => fn(acc as never), this as unknown);
+  }
+
+  /**
+   * Returns an iterator over the contained value: one value for a `Just`, none for a `Nothing`.
+   * This is the same iterator that `for...of` and spread use on the `Maybe` itself.
+   *
+   * @returns An iterable iterator yielding zero or one value.
+   *
+   * @example
+   * for (const x of just(5).values()) {
+   *   console.log(x); // Logs 5
+   * }
+   * [...nothing<number>().values()]; // []
+   */
+  public *values(): IterableIterator<A> {
+    if (this.isJust()) {
+      yield this.value;
+    }
+  }
+
+  /**
+   * Converts this `Maybe` into an array of zero or one element.
+   *
+   * @returns `[value]` for a `Just`, or `[]` for a `Nothing`.
+   *
+   * @example
+   * just(5).toArray(); // [5]
+   * nothing().toArray(); // []
+   */
+  public toArray(): A[] {
+    return this.isJust() ? [this.value] : [];
+  }
+
+  /**
+   * Converts this `Maybe` into a `Result`, using `onNothing` to explain why the value is missing.
+   *
+   * @template E - The type of the error.
+   * @param onNothing - Produces the error if this `Maybe` is `Nothing`. It is only called in that case.
+   * @returns `ok(value)` if this is a `Just`, or `err(onNothing())` if this is a `Nothing`.
+   *
+   * @example
+   * const result: Result<string, User> = findUser(id).toResult(() => `No user with id ${id}`);
+   */
+  public toResult<E>(onNothing: () => E): Result<E, A> {
+    return this.isJust() ? ok(this.value) : err(onNothing());
+  }
+
+  /**
+   * Converts this `Maybe` to its JSON wire format. This is called by `JSON.stringify`.
+   *
+   * @returns `{ kind: "Just", value }` for a `Just`, or `{ kind: "Nothing" }` for a `Nothing`.
+   *
+   * @example
+   * JSON.stringify(just(5)); // '{"kind":"Just","value":5}'
+   * JSON.stringify(nothing()); // '{"kind":"Nothing"}'
+   */
+  public toJSON(): MaybeJSON<A> {
+    return this.isJust()
+      ? { kind: "Just", value: this.value }
+      : { kind: "Nothing" };
+  }
+
+  /**
+   * Explains where this `Maybe` came from, for debugging.
+   *
+   * For a `Nothing` produced while tracing was enabled, this lists the step that produced it,
+   * with its label or key and stack trace, followed by the steps that caused it.
+   *
+   * @returns A readable explanation.
+   *
+   * @example
+   * Maybe.enableTracing();
+   * just({ age: 12 }).filter(isAdult).explain();
+   * // Nothing from filter "isAdult"
+   * //     at ...
+   */
+  public explain(): string {
+    if (this.isJust()) {
+      return this.toString();
+    }
+    return this.trace
+      ? explainTrace(this.trace)
+      : "Nothing (call Maybe.enableTracing() to record where it came from)";
+  }
+
+  /**
+   * Returns a readable representation of this `Maybe`, for logs and test failures.
+   *
+   * Strings are quoted, and arrays, plain objects and nested `Maybe`s are shown recursively.
+   *
+   * @returns `Just(value)` for a `Just`, or `Nothing` for a `Nothing`.
+   *
+   * @example
+   * just(5).toString(); // "Just(5)"
+   * just(just("a")).toString(); // 'Just(Just("a"))'
+   * nothing().toString(); // "Nothing"
+   */
+  public toString(): string {
+    return showValue(this, new Set());
+  }
+
+  /**
+   * The tag used by `Object.prototype.toString`, which gives `"[object Maybe]"`.
+   */
+  public get [Symbol.toStringTag](): string {
+    return "Maybe";
+  }
+
+  /**
+   * Formats this `Maybe` for `util.inspect` and `console.log` in Node.js and Bun, as
+   * `Just(value)` or `Nothing`. The value is formatted by `inspect` itself, so nested
+   * `Maybe`s and `Maybe`s inside objects and arrays are shown the same way, and deeply
+   * nested values are cut off at the requested `depth`.
+   *
+   * @param depth - How many more levels of nesting to show.
+   * @param options - The options passed to `util.inspect`.
+   * @param inspect - `util.inspect` itself. Older runtimes don't pass it, in which case `toString` is used.
+   * @returns The formatted `Maybe`.
+   *
+   * @example
+   * console.log({ user: just({ name: "Ada" }) }); // { user: Just({ name: 'Ada' }) }
+   */
+  public [inspectSymbol](
+    depth: number,
+    options: InspectOptions,
+    inspect?: (value: unknown, options: InspectOptions) => string
+  ): string {
+    const stylize = options?.stylize ?? ((text: string) => text);
+    if (!this.isJust()) {
+      return stylize("Nothing", "special");
+    }
+    if (depth < 0) {
+      return stylize("[Just]", "special");
+    }
+    if (!inspect) {
+      return this.toString();
+    }
+    const inner = inspect(this.value, {
+      ...options,
+      depth: options.depth == null ? options.depth : options.depth - 1,
+    });
+    return `${stylize("Just", "special")}(${inner})`;
+  }
+
+  /**
+   * The Fantasy Land `Functor` method. Equivalent to `map`.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#functor
+   */
+  public ["fantasy-land/map"]<B>(fn: (a: A) => B): Maybe<B> {
+    return this.map(fn);
+  }
+
+  /**
+   * The Fantasy Land `Apply` method. Equivalent to `ap`, which already takes its
+   * arguments in the order the specification requires.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#apply
+   */
+  public ["fantasy-land/ap"]<B>(maybeFn: Maybe<(a: A) => B>): Maybe<B> {
+    return this.ap(maybeFn);
+  }
+
+  /**
+   * The Fantasy Land `Chain` method. Equivalent to `andThen`.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#chain
+   */
+  public ["fantasy-land/chain"]<B>(fn: (a: A) => Maybe<B>): Maybe<B> {
+    return this.andThen(fn);
+  }
+
+  /**
+   * The Fantasy Land `Alt` method. Returns this `Maybe` if it's a `Just`, otherwise `other`.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#alt
+   */
+  public ["fantasy-land/alt"](other: Maybe<A>): Maybe<A> {
+    return this.orElse(() => other);
+  }
+
+  /**
+   * The Fantasy Land `Setoid` method. Contained values are compared with their own
+   * `fantasy-land/equals` method when they have one, and with `Object.is` otherwise.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#setoid
+   */
+  public ["fantasy-land/equals"](other: Maybe<A>): boolean {
+    return this.equals(other, fantasyEquals);
+  }
+
+  /**
+   * The Fantasy Land `Foldable` method. Folds the contained value (if any) into `initial`.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#foldable
+   */
+  public ["fantasy-land/reduce"]<B>(fn: (acc: B, a: A) => B, initial: B): B {
+    return this.isJust() ? fn(initial, this.value) : initial;
+  }
+
+  /**
+   * The Fantasy Land `Traversable` method. Turns a `Maybe` of an applicative inside out,
+   * producing an applicative of a `Maybe`.
+   *
+   * TypeScript cannot express the applicative's type constructor, so the values inside the
+   * applicative are typed as `unknown`.
+   *
+   * @template FMB - The type of the applicative holding a `Maybe`.
+   * @param typeRep - The type representative of the applicative, with a `fantasy-land/of` method.
+   * @param fn - A function returning an applicative value.
+   * @returns The applicative, containing a `Maybe`.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#traversable
+   */
+  public ["fantasy-land/traverse"]<FMB>(
+    typeRep: { "fantasy-land/of": (value: Maybe<unknown>) => FMB },
+    fn: (a: A) => {
+      "fantasy-land/map": (f: (b: unknown) => Maybe<unknown>) => FMB;
+    }
+  ): FMB {
+    return this.isJust()
+      ? fn(this.value)["fantasy-land/map"](just)
+      : typeRep["fantasy-land/of"](nothing());
+  }
+
+  /**
+   * The Fantasy Land `Filterable` method. Equivalent to `filter`.
+   *
+   * @see https://github.com/fantasyland/fantasy-land#filterable
+   */
+  public ["fantasy-land/filter"](predicate: (a: A) => boolean): Maybe<A> {
+    return this.filter(predicate);
+  }
+
+  /**
+   * Implements the iterator protocol over the contained value: a `Just` yields its value
+   * once, and a `Nothing` yields nothing. See `values`.
+   *
+   * @returns An iterator yielding zero or one value.
+   *
+   * @example
+   * [...just(5)]; // [5]
+   * for (const x of nothing<number>()) {
+   *   // never runs
+   * }
+   */
+  public [Symbol.iterator](): IterableIterator<A> {
+    return this.values();
+  }
+
+  /**
+   * The do-notation protocol used by `bind` in `Maybe.gen` and `AsyncMaybe.gen`.
+   *
+   * The generator yields this `Maybe` to the runner, which resumes the block with the
+   * contained value or stops it if this is a `Nothing`.
+   *
+   * @returns A generator that evaluates to the contained value when driven by a runner.
+   */
+  public *[doNotation](): Generator<Maybe<A>, A, unknown> {
+    return (yield this) as A;
+  }
+}
+
+/**
+ * A `Maybe` that contains a value.
+ *
+ * A `Just` can hold any value, including `null` and `undefined`. Deciding what counts as
+ * absent is left to `maybe` and `fromNullable`.
+ *
+ * @template A - The type of the contained value.
+ */
+export class Just<out A> extends Maybe<A> {
+  /**
+   * Identifies this `Maybe` as a `Just`.
+   */
+  readonly kind = "Just" as const;
+
+  /**
+   * The contained value.
+   */
+  readonly value: A;
+
+  /**
+   * Creates a new `Just` instance. Prefer the `just` function.
+   *
+   * @param value - The value to be wrapped.
+   */
+  constructor(value: A) {
+    super();
+    this.value = deepFreezing ? deepFreeze(value, new WeakSet()) : value;
+    Object.freeze(this);
+  }
+
+  /**
+   * The contained value.
+   *
+   * @deprecated Use `value` instead.
+   */
+  get state(): A {
+    return this.value;
+  }
+}
+
+/**
+ * A `Maybe` that represents the absence of a value.
+ *
+ * @template A - The type of the value that would have been present.
+ */
+export class Nothing<out A> extends Maybe<A> {
+  /**
+   * Identifies this `Maybe` as a `Nothing`.
+   */
+  readonly kind = "Nothing" as const;
+
+  /**
+   * Creates a new `Nothing` instance. Prefer the `nothing` function.
+   *
+   * @param trace - (Optional) Where this `Nothing` came from, when tracing is enabled.
+   */
+  constructor(trace?: Trace) {
+    super();
+    if (trace) {
+      Object.defineProperty(this, "trace", { value: trace });
+    }
+    Object.freeze(this);
+  }
+
+  /**
+   * Always `null`.
+   *
+   * @deprecated Use `isNothing()` instead.
+   */
+  get state(): null {
+    return null;
+  }
+}
+
+/**
+ * The equality used by `fantasy-land/equals`: defer to the contained value's own Setoid
+ * implementation, if it has one.
+ */
+const fantasyEquals = (a: unknown, b: unknown): boolean =>
+  isSetoid(a) ? a["fantasy-land/equals"](b) : Object.is(a, b);
+
+/**
+ * Whether a value implements the Fantasy Land `Setoid` method.
+ */
+const isSetoid = (
+  value: unknown
+): value is { "fantasy-land/equals": (other: unknown) => boolean } =>
+  value !== null &&
+  typeof value === "object" &&
+  typeof (value as Record<string, unknown>)["fantasy-land/equals"] ===
+    "function";
+
+/**
+ * Identities assigned to values that have no stable structural encoding: functions, class
+ * instances and unregistered symbols. Held weakly, so hashing a value doesn't keep it alive.
+ */
+const identities = new WeakMap<object, number>();
+
+/**
+ * Identities of unregistered symbols, on runtimes that can't use symbols as `WeakMap` keys.
+ */
+const symbolIdentities = new Map<symbol, number>();
+
+let nextIdentity = 0;
+
+const identityOf = (value: object): number => {
+  let id = identities.get(value);
+  if (typeof id === "undefined") {
+    id = nextIdentity++;
+    identities.set(value, id);
+  }
+  return id;
+};
+
+const symbolIdentityOf = (value: symbol): number => {
+  let id = symbolIdentities.get(value);
+  if (typeof id === "undefined") {
+    try {
+      // Symbols are valid WeakMap keys from ES2023 on.
+      return identityOf(value as unknown as object);
+    } catch {
+      id = nextIdentity++;
+      symbolIdentities.set(value, id);
+    }
+  }
+  return id;
+};
+
+/**
+ * Encodes a value as a stable string, for `Maybe#hashKey`. `ancestors` holds the objects
+ * being encoded above this one, so a cycle is encoded as a reference to the ancestor it
+ * points back to.
+ */
+const hashValue = (value: unknown, ancestors: unknown[] = []): string => {
+  switch (typeof value) {
+    case "string":
+      return `string:${JSON.stringify(value)}`;
+    case "number":
+      return `number:${Object.is(value, -0) ? "-0" : value}`;
+    case "function":
+      return `function#${identityOf(value)}`;
+    case "symbol": {
+      const key = Symbol.keyFor(value);
+      return typeof key === "undefined"
+        ? `symbol#${symbolIdentityOf(value)}`
+        : `symbol:for(${JSON.stringify(key)})`;
+    }
+    case "object":
+      break;
+    default:
+      return `${typeof value}:${String(value)}`;
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (value instanceof Maybe) {
+    return value.isJust()
+      ? `Just(${hashValue(value.value, ancestors)})`
+      : "Nothing";
+  }
+  if (value instanceof Date) {
+    return `date:${value.getTime()}`;
+  }
+  const depth = ancestors.indexOf(value);
+  if (depth !== -1) {
+    return `circular:${ancestors.length - depth}`;
+  }
+  const inner = [...ancestors, value];
+  const encode = (item: unknown) => hashValue(item, inner);
+  if (Array.isArray(value)) {
+    return `[${value.map(encode).join(",")}]`;
+  }
+  if (value instanceof Map) {
+    const entries = [...value].map(([k, v]) => `${encode(k)}=>${encode(v)}`);
+    return `map{${entries.sort().join(",")}}`;
+  }
+  if (value instanceof Set) {
+    return `set{${[...value].map(encode).sort().join(",")}}`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${encode(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  const name = value.constructor?.name || "Object";
+  return `${name}#${identityOf(value)}`;
+};
+
+/**
+ * A `Nothing` holds no value, so it can stand in for a `Nothing` of any type. Passing on the
+ * same instance keeps its trace.
+ */
+export const propagate = <B>(nothing: Maybe<unknown>): Maybe<B> =>
+  nothing as Maybe<B>;
+
+const captureStack = (): string =>
+  (new Error().stack ?? "").replace(/^Error\n/, "");
+
+const describeStep = (trace: Trace): string =>
+  [
+    trace.operation,
+    trace.label === undefined ? "" : ` "${trace.label}"`,
+    trace.key === undefined ? "" : ` of key "${trace.key}"`,
+  ].join("");
+
+const explainTrace = (trace: Trace): string => {
+  const lines: string[] = [];
+  for (let step: Trace | undefined = trace; step; step = step.cause) {
+    const prefix = step === trace ? "Nothing from" : "caused by";
+    lines.push(`${prefix} ${describeStep(step)}`);
+    if (step.stack) {
+      lines.push(step.stack);
+    }
+  }
+  return lines.join("\n");
+};
+
+const showValue = (value: unknown, seen: Set<unknown>): string => {
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  if (typeof value !== "object" || value === null) {
+    return String(value);
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+  try {
+    if (value instanceof Maybe) {
+      return value.isJust()
+        ? `Just(${showValue(value.value, seen)})`
+        : "Nothing";
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => showValue(item, seen)).join(", ")}]`;
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+    }
+    if (isPlainObject(value)) {
+      const entries = Object.keys(value).map(
+        (key) => `${key}: ${showValue(value[key], seen)}`
+      );
+      return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+    }
+    return String(value);
+  } finally {
+    seen.delete(value);
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Freezes a value along with every plain object and array reachable from it. `seen` guards
+ * against cycles.
+ */
+const deepFreeze = <T>(value: T, seen: WeakSet<object>): T => {
+  if ((Array.isArray(value) || isPlainObject(value)) && !seen.has(value)) {
+    seen.add(value);
+    Object.freeze(value);
+    for (const key of Reflect.ownKeys(value)) {
+      deepFreeze((value as Record<PropertyKey, unknown>)[key], seen);
+    }
+  }
+  return value;
+};
+
+const hasOnlyKeys = (value: object, allowed: string[]): boolean =>
+  Object.keys(value).every((key) => allowed.includes(key));
+
+/**
+ * Is the value in the `MaybeJSON` wire format? A `Just` whose value was `undefined` loses
+ * its `value` key when stringified, so that key is optional.
+ */
+const isMaybeJSON = (value: unknown): value is MaybeJSON<unknown> =>
+  isPlainObject(value) &&
+  ((value.kind === "Just" && hasOnlyKeys(value, ["kind", "value"])) ||
+    (value.kind === "Nothing" && hasOnlyKeys(value, ["kind"])));
+
+const fromMaybeJSON = <A>(json: MaybeJSON<A>): Maybe<A> =>
+  json.kind === "Just" ? just(json.value) : nothing();
+
+const reviveValue = (value: unknown): unknown => {
+  if (value instanceof Maybe) {
+    return value.map(reviveValue);
+  }
+  if (Array.isArray(value)) {
+    return value.map(reviveValue);
+  }
+  if (isMaybeJSON(value)) {
+    return fromMaybeJSON(value).map(reviveValue);
+  }
+  if (isPlainObject(value)) {
+    const revived: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      revived[key] = reviveValue(value[key]);
+    }
+    return revived;
+  }
+  return value;
+};
 
 export default Maybe;
@@ -0,0 +1,59 @@
+import { andThen, ap, filter, map } from "./functions";
+import Maybe, { just, nothing } from "./Maybe";
+
+/**
+ * A Static Land `Applicative` module, as accepted by `MaybeStatic.traverse`.
+ *
+ * TypeScript cannot express the applicative's type constructor, so the values inside the
+ * applicative are typed as `unknown`.
+ *
+ * @template FB - The type of the applicative values passed to `traverse`.
+ * @template FMB - The type of the applicative holding a `Maybe`.
+ *
+ * @see https://github.com/fantasyland/static-land/blob/master/docs/spec.md#applicative
+ */
+export interface StaticApplicative<FB = unknown, FMB = unknown> {
+  of: (value: Maybe<unknown>) => FMB;
+  map: (fn: (value: unknown) => Maybe<unknown>, applicative: FB) => FMB;
+}
+
+/**
+ * The Static Land module for `Maybe`.
+ *
+ * It implements `Setoid`, `Functor`, `Apply`, `Applicative`, `Chain`, `Monad`, `Alt`,
+ * `Plus`, `Alternative`, `Foldable`, `Traversable` and `Filterable`, mostly by delegating
+ * to the curried functions in `functions.ts` with all their arguments supplied.
+ *
+ * @see https://github.com/fantasyland/static-land
+ *
+ * @example
+ * MaybeStatic.map((x: number) => x + 1, just(5)); // just(6)
+ * MaybeStatic.chain((x: number) => just(x * 2), MaybeStatic.of(5)); // just(10)
+ * MaybeStatic.alt(nothing(), just(1)); // just(1)
+ */
+export const MaybeStatic = {
+  equals: <A>(a: Maybe<A>, b: Maybe<A>): boolean => a["fantasy-land/equals"](b),
+  map: <A, B>(fn: (a: A) => B, maybe: Maybe<A>): Maybe<B> => map(fn, maybe),
+  ap: <A, B>(maybeFn: Maybe<(a: A) => B>, maybe: Maybe<A>): Maybe<B> =>
+    ap(maybeFn, maybe),
+  of: <A>(value: A): Maybe<A> => just(value),
+  chain: <A, B>(fn: (a: A) => Maybe<B>, maybe: Maybe<A>): Maybe<B> =>
+    andThen(fn, maybe),
+  alt: <A>(a: Maybe<A>, b: Maybe<A>): Maybe<A> => a.orElse(() => b),
+  zero: <A>(): Maybe<A> => nothing(),
+  reduce: <A, B>(fn: (acc: B, a: A) => B, initial: B, maybe: Maybe<A>): B =>
+    maybe.cata({ Just: (a) => fn(initial, a), Nothing: () => initial }),
+  traverse: <A, FB, FMB>(
+    applicative: StaticApplicative<FB, FMB>,
+    fn: (a: A) => FB,
+    maybe: Maybe<A>
+  ): FMB =>
+    maybe.cata({
+      Just: (a) => applicative.map(just, fn(a)),
+      Nothing: () => applicative.of(nothing()),
+    }),
+  filter: <A>(predicate: (a: A) => boolean, maybe: Maybe<A>): Maybe<A> =>
+    filter(predicate, maybe),
+};
+
+export default MaybeStatic;
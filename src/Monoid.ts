@@ -0,0 +1,25 @@
+/**
+ * A way of combining two values of the same type into one.
+ *
+ * `concat` must be associative: `concat(concat(a, b), c)` equals `concat(a, concat(b, c))`.
+ *
+ * @template A - The type of the values being combined.
+ *
+ * @example
+ * const sum: Semigroup<number> = { concat: (a, b) => a + b };
+ */
+export interface Semigroup<A> {
+  concat: (a: A, b: A) => A;
+}
+
+/**
+ * A `Semigroup` with an identity value, `empty`, so that `concat(empty, a)` and
+ * `concat(a, empty)` both equal `a`.
+ *
+ * A `Monoid` can fold any array, including an empty one: `values.reduce(M.concat, M.empty)`.
+ *
+ * @template A - The type of the values being combined.
+ */
+export interface Monoid<A> extends Semigroup<A> {
+  empty: A;
+}
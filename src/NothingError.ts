@@ -0,0 +1,38 @@
+import type { Trace } from "./Maybe";
+
+/**
+ * The error thrown when a `Maybe` is unwrapped with `getOrThrow`, `expect` or `assertJust`
+ * but turns out to be `Nothing`.
+ *
+ * If tracing was enabled when the `Nothing` was created, its `trace` is attached, so the
+ * error can say where the value went missing. See `Maybe.enableTracing`.
+ *
+ * @example
+ * try {
+ *   const user = findUser(id).expect(`User ${id} must exist`);
+ * } catch (e) {
+ *   if (e instanceof NothingError) {
+ *     console.error(e.message, e.trace);
+ *   }
+ * }
+ */
+export class NothingError extends Error {
+  /**
+   * Where the `Nothing` came from, if tracing was enabled when it was created.
+   */
+  readonly trace?: Trace;
+
+  /**
+   * Creates a new `NothingError`.
+   *
+   * @param message - (Optional) Describes the value that was expected.
+   * @param trace - (Optional) The `trace` of the `Nothing` that was unwrapped.
+   */
+  constructor(message = "Expected a Just, but got Nothing", trace?: Trace) {
+    super(message);
+    this.name = "NothingError";
+    this.trace = trace;
+  }
+}
+
+export default NothingError;
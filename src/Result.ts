@@ -0,0 +1,332 @@
+import Maybe, { just, nothing } from "./Maybe";
+import ResultCatamorphism from "./ResultCatamorphism";
+
+/**
+ * The internal state of a `Result`: either an `Ok` holding a value, or an `Err` holding an error.
+ *
+ * @template E - The type of the error.
+ * @template A - The type of the value.
+ */
+export type ResultState<E, A> =
+  | { readonly kind: "Ok"; readonly value: A }
+  | { readonly kind: "Err"; readonly error: E };
+
+/**
+ * Creates a `Result` instance in the `Ok` state with the given value.
+ *
+ * @template A - The type of the value to be wrapped in the `Result`.
+ * @template E - The type of the error the `Result` could have held.
+ * @param value - The value to be wrapped in the `Result`.
+ * @returns A `Result<E, A>` instance in the `Ok` state.
+ *
+ * @example
+ * const result: Result<string, number> = ok(5); // result is ok(5)
+ */
+export function ok<A, E = never>(value: A): Result<E, A> {
+  return new Result<E, A>({ kind: "Ok", value });
+}
+
+/**
+ * Creates a `Result` instance in the `Err` state with the given error.
+ *
+ * @template E - The type of the error to be wrapped in the `Result`.
+ * @template A - The type of the value the `Result` could have held.
+ * @param error - The error to be wrapped in the `Result`.
+ * @returns A `Result<E, A>` instance in the `Err` state.
+ *
+ * @example
+ * const result: Result<string, number> = err("not found"); // result is err("not found")
+ */
+export function err<E, A = never>(error: E): Result<E, A> {
+  return new Result<E, A>({ kind: "Err", error });
+}
+
+/**
+ * Represents the outcome of a computation that may fail with an error.
+ *
+ * `Result` is the companion of `Maybe` for when you need to know *why* a value is absent.
+ * It can be in one of two states:
+ * - `Ok`: Represents success, holding a value.
+ * - `Err`: Represents failure, holding an error.
+ *
+ * It shares its vocabulary with `Maybe`: `map`, `andThen`, `orElse`, `cata`, `getOrElse`,
+ * `assign`, `do` and `elseDo`. Error handlers receive the error.
+ *
+ * @template E - The type of the error.
+ * @template A - The type of the value.
+ */
+export class Result<E, A> {
+  /**
+   * The internal state of the `Result`.
+   */
+  readonly state: ResultState<E, A>;
+
+  /**
+   * Creates a `Result` instance in the `Ok` state. See `ok`.
+   */
+  public static ok = ok;
+  /**
+   * Creates a `Result` instance in the `Err` state. See `err`.
+   */
+  public static err = err;
+
+  /**
+   * Converts a `Maybe` into a `Result`, using `onNothing` to produce the error for a `Nothing`.
+   *
+   * @template E - The type of the error.
+   * @template A - The type of the value.
+   * @param maybe - The `Maybe` to convert.
+   * @param onNothing - Produces the error if `maybe` is `Nothing`.
+   * @returns `ok(value)` for a `Just`, or `err(onNothing())` for a `Nothing`.
+   *
+   * @example
+   * const result = Result.fromMaybe(findUser(id), () => `No user ${id}`);
+   */
+  public static fromMaybe<E, A>(
+    maybe: Maybe<A>,
+    onNothing: () => E
+  ): Result<E, A> {
+    return maybe.cata<Result<E, A>>({
+      Just: (value) => ok(value),
+      Nothing: () => err(onNothing()),
+    });
+  }
+
+  /**
+   * Creates a new `Result` instance. The instance and its state are frozen.
+   *
+   * @param state - The state of the `Result`.
+   */
+  constructor(state: ResultState<E, A>) {
+    this.state = Object.freeze(state);
+    Object.freeze(this);
+  }
+
+  /**
+   * Returns the value if it's an `Ok`, otherwise the result of applying `fn` to the error.
+   *
+   * @param fn - Produces the fallback value from the error.
+   * @returns The contained value, or `fn(error)`.
+   *
+   * @example
+   * ok<number, string>(5).getOrElse(() => 10); // 5
+   * err<string, number>("oops").getOrElse((e) => e.length); // 4
+   */
+  public getOrElse(fn: (error: E) => A): A {
+    return this.state.kind === "Ok" ? this.state.value : fn(this.state.error);
+  }
+
+  /**
+   * Returns the value if it's an `Ok`, otherwise a default value.
+   *
+   * @param defaultValue - The default value to return if it's an `Err`.
+   * @returns The contained value, or `defaultValue`.
+   */
+  public getOrElseValue(defaultValue: A): A {
+    return this.getOrElse(() => defaultValue);
+  }
+
+  /**
+   * Applies a function to the value if it's an `Ok`, otherwise passes the `Err` along.
+   *
+   * @template B - The type of the new value.
+   * @param fn - The function to apply to the value.
+   * @returns A new `Result<E, B>`.
+   *
+   * @example
+   * ok<number, string>(5).map((x) => x * 2); // ok(10)
+   * err<string, number>("oops").map((x) => x * 2); // err("oops")
+   */
+  public map<B>(fn: (a: A) => B): Result<E, B> {
+    return this.state.kind === "Ok"
+      ? ok(fn(this.state.value))
+      : err(this.state.error);
+  }
+
+  /**
+   * Applies a function to the error if it's an `Err`, otherwise passes the `Ok` along.
+   *
+   * @template F - The type of the new error.
+   * @param fn - The function to apply to the error.
+   * @returns A new `Result<F, A>`.
+   *
+   * @example
+   * err<string, number>("oops").mapError((e) => new Error(e)); // err(Error("oops"))
+   */
+  public mapError<F>(fn: (e: E) => F): Result<F, A> {
+    return this.state.kind === "Ok"
+      ? ok(this.state.value)
+      : err(fn(this.state.error));
+  }
+
+  /**
+   * Chains a computation that may fail. If this is an `Ok`, `fn` is applied to the value and
+   * its `Result` is returned; otherwise the `Err` is passed along.
+   *
+   * @template B - The type of the new value.
+   * @template F - The type of the error `fn` may fail with. It is added to the error type.
+   * @param fn - The function to apply to the value.
+   * @returns The `Result<F, B>` returned by `fn`, or this `Err`.
+   *
+   * @example
+   * const parse = (s: string): Result<string, number> =>
+   *   isNaN(Number(s)) ? err(`${s} is not a number`) : ok(Number(s));
+   *
+   * ok("5").andThen(parse); // ok(5)
+   * ok("five").andThen(parse); // err("five is not a number")
+   */
+  public andThen<B, F = E>(fn: (a: A) => Result<F, B>): Result<E | F, B> {
+    return this.state.kind === "Ok"
+      ? fn(this.state.value)
+      : err(this.state.error);
+  }
+
+  /**
+   * Returns this `Result` if it's an `Ok`, otherwise the `Result` returned by applying `fn`
+   * to the error. Use this to recover from an error.
+   *
+   * @template F - The type of the error of the fallback `Result`.
+   * @template B - The type of the value of the fallback `Result`. It is added to the value type.
+   * @param fn - The function to apply to the error.
+   * @returns This `Ok`, or the result of `fn(error)`.
+   *
+   * @example
+   * err("oops").orElse(() => ok(10)); // ok(10)
+   */
+  public orElse<F, B = A>(fn: (e: E) => Result<F, B>): Result<F, A | B> {
+    return this.state.kind === "Ok"
+      ? ok(this.state.value)
+      : fn(this.state.error);
+  }
+
+  /**
+   * Performs pattern matching on this `Result`.
+   *
+   * @template B - The type of the result produced by the matcher.
+   * @param matcher - A `ResultCatamorphism` object containing `Ok` and `Err` functions.
+   * @returns The result of applying the appropriate function from `matcher`.
+   *
+   * @example
+   * const message = findUser(id).cata({
+   *   Ok: (user) => `Hello, ${user.name}`,
+   *   Err: (error) => `Failed: ${error}`,
+   * });
+   */
+  public cata<B>(matcher: ResultCatamorphism<E, A, B>): B {
+    return this.state.kind === "Ok"
+      ? matcher.Ok(this.state.value)
+      : matcher.Err(this.state.error);
+  }
+
+  /**
+   * Builds up an object from a series of `Result` values, the same way as `Maybe#assign`.
+   * The first `Err` stops the chain.
+   *
+   * Like `Maybe#assign`, it only assigns to objects. Without `onNonObject`, the value must
+   * be typed as an object. With it, any value is accepted, and a value that is not an object
+   * gives an `Err` holding the error from `onNonObject`.
+   *
+   * @template K - The type of the key to assign to.
+   * @template B - The type of the value to assign.
+   * @template F - The type of the error `other` may fail with. It is added to the error type.
+   * @param k - The key to assign the value to.
+   * @param other - Either a `Result<F, B>` or a function that takes the current value and returns one.
+   * @param onNonObject - (Optional) Produces the error when the value is not an object.
+   * @returns A new `Result` containing the merged object, or the first `Err`.
+   *
+   * @example
+   * ok({})
+   *   .assign("user", findUser(id))
+   *   .assign("team", (scope) => findTeam(scope.user.teamId));
+   *
+   * @example
+   * ok<unknown, string>(5).assign("user", findUser(id), () => "Not an object"); // err("Not an object")
+   */
+  public assign<K extends string, B, F = E>(
+    this: Result<E, object>,
+    k: K,
+    other: Result<F, B> | ((a: A) => Result<F, B>)
+  ): Result<E | F, A & { [k in K]: B }>;
+  public assign<K extends string, B, F = E>(
+    k: K,
+    other: Result<F, B> | ((a: A) => Result<F, B>),
+    onNonObject: (value: A) => F
+  ): Result<E | F, A & { [k in K]: B }>;
+  public assign<K extends string, B, F = E>(
+    k: K,
+    other: Result<F, B> | ((a: A) => Result<F, B>),
+    onNonObject?: (value: A) => F
+  ): Result<E | F | TypeError, A & { [k in K]: B }> {
+    if (this.state.kind === "Err") {
+      return err(this.state.error);
+    }
+    const a = this.state.value;
+    if (typeof a !== "object" || a === null) {
+      return err(
+        onNonObject
+          ? onNonObject(a)
+          : new TypeError(`Cannot assign "${k}" to a non-object value`)
+      );
+    }
+    const result = typeof other === "function" ? other(a) : other;
+    return result.map((b) => ({ ...a, [k]: b }) as A & { [k in K]: B });
+  }
+
+  /**
+   * Runs a side effect with the value if it's an `Ok`.
+   *
+   * @param fn - The function to call with the value.
+   * @returns This `Result`, unchanged.
+   */
+  public do(fn: (a: A) => void): Result<E, A> {
+    if (this.state.kind === "Ok") {
+      fn(this.state.value);
+    }
+    return this;
+  }
+
+  /**
+   * Runs a side effect with the error if it's an `Err`.
+   *
+   * @param fn - The function to call with the error.
+   * @returns This `Result`, unchanged.
+   *
+   * @example
+   * parse(input).elseDo((error) => console.error(error));
+   */
+  public elseDo(fn: (e: E) => void): Result<E, A> {
+    if (this.state.kind === "Err") {
+      fn(this.state.error);
+    }
+    return this;
+  }
+
+  /**
+   * Returns `true` if the `Result` is an `Ok`, narrowing its `state`.
+   */
+  public isOk(): this is Result<E, A> & { state: { kind: "Ok"; value: A } } {
+    return this.state.kind === "Ok";
+  }
+
+  /**
+   * Returns `true` if the `Result` is an `Err`, narrowing its `state`.
+   */
+  public isErr(): this is Result<E, A> & { state: { kind: "Err"; error: E } } {
+    return this.state.kind === "Err";
+  }
+
+  /**
+   * Converts this `Result` into a `Maybe`, discarding the error.
+   *
+   * @returns `just(value)` for an `Ok`, or `nothing()` for an `Err`.
+   *
+   * @example
+   * ok(5).toMaybe(); // just(5)
+   * err("oops").toMaybe(); // nothing()
+   */
+  public toMaybe(): Maybe<A> {
+    return this.state.kind === "Ok" ? just(this.state.value) : nothing();
+  }
+}
+
+export default Result;
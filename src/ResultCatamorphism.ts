@@ -0,0 +1,18 @@
+/**
+ * Represents a Catamorphism for deconstructing or folding over a `Result`.
+ *
+ * @template E - The type of the error contained in the `Err` case.
+ * @template A - The type of the value contained in the `Ok` case.
+ * @template B - The type of the result produced by applying the catamorphism.
+ *
+ * @property Ok - A function that handles the `Ok` case, taking a value of type `A`
+ * and returning a result of type `B`.
+ * @property Err - A function that handles the `Err` case, taking an error of type `E`
+ * and returning a result of type `B`.
+ */
+export interface ResultCatamorphism<E, A, B> {
+  Ok: (value: A) => B;
+  Err: (error: E) => B;
+}
+
+export default ResultCatamorphism;
@@ -0,0 +1,139 @@
+import Maybe, { just, nothing } from "./Maybe";
+
+/**
+ * Collects the values of all the `Just`s in an array, dropping the `Nothing`s.
+ *
+ * Where `sequence` is "all or nothing", `catMaybes` keeps whatever is there.
+ *
+ * @template T - The type of the value contained within the `Maybe` instances in the array.
+ * @param maybes - An array of `Maybe<T>` instances.
+ * @returns An array of the values of the `Just`s, in order.
+ *
+ * @example
+ * const values: number[] = catMaybes([just(1), nothing(), just(3)]); // values is [1, 3]
+ */
+export function catMaybes<T>(maybes: Maybe<T>[]): T[] {
+  const result: T[] = [];
+  for (const maybe of maybes) {
+    if (maybe.isJust()) {
+      result.push(maybe.value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies a function that returns a `Maybe` to each element of an array, keeping the values of
+ * the `Just`s and dropping the `Nothing`s.
+ *
+ * This replaces the `arr.map(f).filter(isJust).map(m => m.value)` pattern. Where `traverse`
+ * is "all or nothing", `mapMaybe` keeps whatever is there.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the values in the input array.
+ * @template U - The type of the value contained within the `Maybe` instances returned by the mapping function.
+ * @param fn - The function to apply to each value in the array.
+ * @param values - (Optional) The array of values to map. If omitted, the function returns a curried function expecting an array of `T`.
+ * @returns If `values` is provided, returns an array of the values of the `Just`s returned by `fn`.
+ *          If `values` is not provided, returns a curried function that takes an array of `T` and returns a `U[]`.
+ *
+ * @example
+ * const parsed: number[] = mapMaybe((s: string) => fromNullable(lookup[s]), ["a", "b", "z"]); // parsed is [1, 2]
+ *
+ * @example
+ * const evens = mapMaybe((n: number) => (n % 2 === 0 ? just(n) : nothing()));
+ * evens([1, 2, 3, 4]); // [2, 4]
+ */
+export function mapMaybe<T, U>(
+  fn: (value: T) => Maybe<U>
+): (values: T[]) => U[];
+export function mapMaybe<T, U>(fn: (value: T) => Maybe<U>, values: T[]): U[];
+export function mapMaybe<T, U>(fn: (value: T) => Maybe<U>, values?: T[]) {
+  const doit = (values: T[]) => catMaybes(values.map(fn));
+  return typeof values === "undefined" ? doit : doit(values);
+}
+
+/**
+ * An alias for `mapMaybe`.
+ */
+export const filterMap = mapMaybe;
+
+/**
+ * Applies a function that returns a `Maybe` to each element of an array, and splits the inputs
+ * by whether the function returned a `Just`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the values in the input array.
+ * @template U - The type of the value contained within the `Maybe` instances returned by the mapping function.
+ * @param fn - The function to apply to each value in the array.
+ * @param values - (Optional) The array of values to partition. If omitted, the function returns a curried function expecting an array of `T`.
+ * @returns If `values` is provided, returns a tuple of the values of the `Just`s returned by `fn`, and the inputs for which `fn` returned `Nothing`.
+ *          If `values` is not provided, returns a curried function that takes an array of `T` and returns that tuple.
+ *
+ * @example
+ * const [numbers, rejected] = partitionMaybes(
+ *   (s: string) => (isNaN(Number(s)) ? nothing() : just(Number(s))),
+ *   ["1", "two", "3"]
+ * ); // numbers is [1, 3], rejected is ["two"]
+ */
+export function partitionMaybes<T, U>(
+  fn: (value: T) => Maybe<U>
+): (values: T[]) => [U[], T[]];
+export function partitionMaybes<T, U>(
+  fn: (value: T) => Maybe<U>,
+  values: T[]
+): [U[], T[]];
+export function partitionMaybes<T, U>(
+  fn: (value: T) => Maybe<U>,
+  values?: T[]
+) {
+  const doit = (values: T[]): [U[], T[]] => {
+    const justs: U[] = [];
+    const nothings: T[] = [];
+    for (const value of values) {
+      const result = fn(value);
+      if (result.isJust()) {
+        justs.push(result.value);
+      } else {
+        nothings.push(value);
+      }
+    }
+    return [justs, nothings];
+  };
+  return typeof values === "undefined" ? doit : doit(values);
+}
+
+/**
+ * Converts a `Maybe` into an array of zero or one element.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param maybe - The `Maybe` to convert.
+ * @returns `[value]` for a `Just`, or `[]` for a `Nothing`.
+ *
+ * @example
+ * toArray(just(5)); // [5]
+ * toArray(nothing()); // []
+ */
+export function toArray<T>(maybe: Maybe<T>): T[] {
+  return maybe.toArray();
+}
+
+/**
+ * Returns the first element of an array as a `Maybe`.
+ *
+ * An empty array gives `Nothing`. The first element is returned in a `Just` even if it is
+ * `null` or `undefined`.
+ *
+ * @template T - The type of the values in the array.
+ * @param values - The array.
+ * @returns `just(values[0])`, or `nothing()` if the array is empty.
+ *
+ * @example
+ * listToMaybe([1, 2, 3]); // just(1)
+ * listToMaybe([]); // nothing()
+ */
+export function listToMaybe<T>(values: T[]): Maybe<T> {
+  return values.length === 0 ? nothing() : just(values[0]);
+}
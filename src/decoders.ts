@@ -0,0 +1,273 @@
+import { traverse } from "./functions";
+import Maybe, { just, nothing } from "./Maybe";
+
+/**
+ * A function that checks an untrusted value, returning it as a `Maybe` of the expected type.
+ *
+ * Decoders are plain functions, so they compose with `andThen` and `traverse`:
+ * `parseJSON(body).andThen(user)`.
+ *
+ * @template A - The type of the decoded value.
+ */
+export type Decoder<A> = (input: unknown) => Maybe<A>;
+
+/**
+ * A decoder for a property that may be missing. Create one with `optional`.
+ *
+ * @template A - The type of the decoded value when present.
+ */
+export type OptionalDecoder<A> = Decoder<A | undefined> & {
+  readonly optional: true;
+};
+
+/**
+ * The type of the values produced by a decoder.
+ *
+ * @example
+ * const user = object({ name: string, age: optional(number) });
+ * type User = DecoderOutput<typeof user>; // { name: string; age?: number | undefined }
+ */
+export type DecoderOutput<D> = D extends Decoder<infer A> ? A : never;
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectOutput<S extends Record<string, Decoder<unknown>>> = Flatten<
+  {
+    [K in keyof S as S[K] extends OptionalDecoder<unknown>
+      ? never
+      : K]: DecoderOutput<S[K]>;
+  } & {
+    [K in keyof S as S[K] extends OptionalDecoder<unknown>
+      ? K
+      : never]?: DecoderOutput<S[K]>;
+  }
+>;
+
+/**
+ * Decodes a string.
+ *
+ * @example
+ * string("a"); // just("a")
+ * string(1); // nothing()
+ */
+export const string: Decoder<string> = (input) =>
+  typeof input === "string" ? just(input) : nothing("expected a string");
+
+/**
+ * Decodes a number. `NaN` is rejected.
+ *
+ * @example
+ * number(1); // just(1)
+ * number("1"); // nothing()
+ */
+export const number: Decoder<number> = (input) =>
+  typeof input === "number" && !Number.isNaN(input)
+    ? just(input)
+    : nothing("expected a number");
+
+/**
+ * Decodes a boolean.
+ *
+ * @example
+ * boolean(true); // just(true)
+ * boolean("true"); // nothing()
+ */
+export const boolean: Decoder<boolean> = (input) =>
+  typeof input === "boolean" ? just(input) : nothing("expected a boolean");
+
+/**
+ * Creates a decoder that accepts only the given values, compared with `Object.is`.
+ *
+ * @template L - The accepted values.
+ * @param values - The accepted values.
+ * @returns A decoder for the union of the accepted values.
+ *
+ * @example
+ * const role = literal("admin", "member");
+ * role("admin"); // just("admin"), typed as "admin" | "member"
+ * role("guest"); // nothing()
+ */
+export function literal<
+  const L extends readonly (string | number | boolean | null)[],
+>(...values: L): Decoder<L[number]> {
+  return (input) =>
+    values.some((value) => Object.is(value, input))
+      ? just(input as L[number])
+      : nothing(`expected one of ${values.map(String).join(", ")}`);
+}
+
+/**
+ * Creates a decoder for arrays whose elements all pass `decoder`. It fails if any
+ * element fails.
+ *
+ * @template A - The type of the decoded elements.
+ * @param decoder - The decoder for each element.
+ * @returns A decoder for `A[]`.
+ *
+ * @example
+ * array(number)([1, 2]); // just([1, 2])
+ * array(number)([1, "2"]); // nothing()
+ */
+export function array<A>(decoder: Decoder<A>): Decoder<A[]> {
+  return (input) =>
+    Array.isArray(input)
+      ? traverse(decoder, input)
+      : nothing("expected an array");
+}
+
+/**
+ * Creates a decoder for objects with the given properties. Each property is decoded with its
+ * own decoder, and the decoder fails if any property fails. Properties decoded with `optional`
+ * may be missing. Properties not in `shape` are dropped.
+ *
+ * The output type is inferred from `shape`.
+ *
+ * @template S - The decoders for each property.
+ * @param shape - An object mapping each property to its decoder.
+ * @returns A decoder for the object.
+ *
+ * @example
+ * const user = object({
+ *   name: string,
+ *   role: literal("admin", "member"),
+ *   email: optional(string),
+ * });
+ * parseJSON(body).andThen(user);
+ * // Maybe<{ name: string; role: "admin" | "member"; email?: string | undefined }>
+ */
+export function object<S extends Record<string, Decoder<unknown>>>(
+  shape: S
+): Decoder<ObjectOutput<S>> {
+  return (input) => {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      return nothing("expected an object");
+    }
+    const record = input as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const decoder = shape[key];
+      // Only own properties count, so keys like "toString" aren't read from the prototype.
+      const present = Object.prototype.hasOwnProperty.call(record, key);
+      if (!present && isOptional(decoder)) {
+        continue;
+      }
+      const decoded = decoder(present ? record[key] : undefined);
+      if (!decoded.isJust()) {
+        return nothing(`invalid property "${key}"`);
+      }
+      // Defined rather than assigned, so a "__proto__" key is kept as data.
+      Object.defineProperty(result, key, {
+        value: decoded.value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return just(result as ObjectOutput<S>);
+  };
+}
+
+/**
+ * Creates a decoder that also accepts `undefined`. In an `object`, the property may be missing.
+ *
+ * @template A - The type of the decoded value when present.
+ * @param decoder - The decoder for the value when present.
+ * @returns A decoder for `A | undefined`.
+ *
+ * @example
+ * optional(string)(undefined); // just(undefined)
+ * object({ email: optional(string) })({}); // just({})
+ */
+export function optional<A>(decoder: Decoder<A>): OptionalDecoder<A> {
+  const optionalDecoder: Decoder<A | undefined> = (input) =>
+    input === undefined ? just(undefined) : decoder(input);
+  return Object.assign(optionalDecoder, { optional: true as const });
+}
+
+/**
+ * Creates a decoder that also accepts `null`.
+ *
+ * @template A - The type of the decoded value when not `null`.
+ * @param decoder - The decoder for the value when not `null`.
+ * @returns A decoder for `A | null`.
+ *
+ * @example
+ * nullable(number)(null); // just(null)
+ */
+export function nullable<A>(decoder: Decoder<A>): Decoder<A | null> {
+  return (input) => (input === null ? just(null) : decoder(input));
+}
+
+/**
+ * Creates a decoder that tries each decoder in turn and uses the first that succeeds.
+ *
+ * @template D - The decoders to try.
+ * @param decoders - The decoders to try, in order.
+ * @returns A decoder for the union of their outputs.
+ *
+ * @example
+ * const id = oneOf(string, number);
+ * id(1); // just(1), typed as string | number
+ */
+export function oneOf<D extends Decoder<unknown>[]>(
+  ...decoders: D
+): Decoder<DecoderOutput<D[number]>> {
+  return (input) => {
+    for (const decoder of decoders) {
+      const decoded = decoder(input);
+      if (decoded.isJust()) {
+        return just(decoded.value as DecoderOutput<D[number]>);
+      }
+    }
+    return nothing("no alternative matched");
+  };
+}
+
+/**
+ * Narrows a decoder with a predicate: values that fail the predicate are rejected. A type
+ * guard also narrows the output type.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template A - The type of the values produced by `decoder`.
+ * @template B - The type narrowed to by a type guard predicate.
+ * @param predicate - The check values must pass.
+ * @param decoder - (Optional) The decoder to narrow. If omitted, the function returns a curried function expecting the decoder.
+ * @returns If `decoder` is provided, returns the narrowed decoder.
+ *          If `decoder` is not provided, returns a curried function that takes a decoder and returns the narrowed decoder.
+ *
+ * @example
+ * const positive = refine((n: number) => n > 0, number);
+ * positive(-1); // nothing()
+ *
+ * @example
+ * const nonEmpty = refine((s: string) => s.length > 0);
+ * const name = nonEmpty(string);
+ */
+export function refine<A, B extends A>(
+  predicate: (value: A) => value is B,
+  decoder: Decoder<A>
+): Decoder<B>;
+export function refine<A>(
+  predicate: (value: A) => boolean,
+  decoder: Decoder<A>
+): Decoder<A>;
+export function refine<A, B extends A>(
+  predicate: (value: A) => value is B
+): (decoder: Decoder<A>) => Decoder<B>;
+export function refine<A>(
+  predicate: (value: A) => boolean
+): (decoder: Decoder<A>) => Decoder<A>;
+export function refine<A>(
+  predicate: (value: A) => boolean,
+  decoder?: Decoder<A>
+) {
+  const doit =
+    (decoder: Decoder<A>): Decoder<A> =>
+    (input) =>
+      decoder(input).filter(predicate, "refine");
+  return typeof decoder === "undefined" ? doit : doit(decoder);
+}
+
+const isOptional = (decoder: Decoder<unknown>): boolean =>
+  (decoder as Partial<OptionalDecoder<unknown>>).optional === true;
@@ -0,0 +1,56 @@
+import Maybe from "./Maybe";
+
+/**
+ * A JsonML element, as returned by a devtools custom formatter.
+ */
+export type JsonML = [string, Record<string, unknown>, ...unknown[]];
+
+/**
+ * A devtools custom formatter, as understood by Chrome, Edge and Firefox once
+ * "Enable custom formatters" is turned on in the devtools settings.
+ *
+ * @see https://firefox-source-docs.mozilla.org/devtools-user/custom_formatters/
+ */
+export interface DevtoolsFormatter {
+  header: (value: unknown, config?: unknown) => JsonML | null;
+  hasBody: (value: unknown, config?: unknown) => boolean;
+  body?: (value: unknown, config?: unknown) => JsonML | null;
+}
+
+/**
+ * A devtools custom formatter that shows a `Maybe` as `Just(value)` or `Nothing` in the
+ * browser console. The contained value stays expandable, so nested `Maybe`s and `Maybe`s
+ * inside objects and arrays are shown the same way.
+ *
+ * Install it with `installDevtoolsFormatter`.
+ */
+export const maybeFormatter: DevtoolsFormatter = {
+  header: (value) => {
+    if (!(value instanceof Maybe)) {
+      return null;
+    }
+    return value.isJust()
+      ? ["span", {}, "Just(", ["object", { object: value.value }], ")"]
+      : ["span", { style: "color: #888" }, "Nothing"];
+  },
+  hasBody: () => false,
+};
+
+/**
+ * Registers `maybeFormatter` with the browser devtools, by adding it to
+ * `globalThis.devtoolsFormatters`. Calling it more than once has no further effect.
+ *
+ * Call it once during development, e.g. in your app's entry point.
+ *
+ * @example
+ * if (process.env.NODE_ENV !== "production") {
+ *   installDevtoolsFormatter();
+ * }
+ */
+export function installDevtoolsFormatter(): void {
+  const global = globalThis as { devtoolsFormatters?: DevtoolsFormatter[] };
+  const formatters = (global.devtoolsFormatters ??= []);
+  if (!formatters.includes(maybeFormatter)) {
+    formatters.push(maybeFormatter);
+  }
+}
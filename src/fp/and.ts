@@ -0,0 +1,4 @@
+/**
+ * An alias for `map`, matching `Maybe#and`.
+ */
+export { map as and } from "../functions";
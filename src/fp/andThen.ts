@@ -0,0 +1 @@
+export { andThen } from "../functions";
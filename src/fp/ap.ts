@@ -0,0 +1 @@
+export { ap } from "../functions";
@@ -0,0 +1 @@
+export { assertJust } from "../functions";
@@ -0,0 +1,46 @@
+import Maybe from "../Maybe";
+
+/**
+ * Adds a key to the object in a `Maybe`, from another `Maybe` or a function of the object.
+ * See `Maybe#assign`.
+ *
+ * This function is curried, meaning it can be called with either two or three arguments.
+ *
+ * @template K - The type of the key to assign to.
+ * @template T - The type of the object contained within `maybe`.
+ * @template B - The type of the value to assign.
+ * @param k - The key to assign the value to.
+ * @param other - Either a `Maybe<B>` or a function that takes the current object and returns a `Maybe<B>`.
+ * @param maybe - (Optional) The `Maybe` of the object to add to. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns a `Maybe` of the merged object, or `Nothing`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns one.
+ *
+ * @example
+ * // Using assign with all arguments
+ * assign("foo", just(5), just({})); // just({ foo: 5 })
+ *
+ * @example
+ * // Using assign in its curried form
+ * pipe(
+ *   just({}),
+ *   assign("user", findUser(id)),
+ *   assign("team", (scope) => findTeam(scope.user.teamId))
+ * );
+ */
+export function assign<K extends string, T, B extends Object>(
+  k: K,
+  other: Maybe<B> | ((a: T) => Maybe<B>),
+  maybe: Maybe<T>
+): Maybe<T & { [k in K]: B }>;
+export function assign<K extends string, T, B extends Object>(
+  k: K,
+  other: Maybe<B> | ((a: T) => Maybe<B>)
+): (maybe: Maybe<T>) => Maybe<T & { [k in K]: B }>;
+export function assign<K extends string, T, B extends Object>(
+  k: K,
+  other: Maybe<B> | ((a: T) => Maybe<B>),
+  maybe?: Maybe<T>
+) {
+  const doit = (maybe: Maybe<T>) => maybe.assign(k, other);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
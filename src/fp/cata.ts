@@ -0,0 +1 @@
+export { cata } from "../functions";
@@ -0,0 +1 @@
+export { compare } from "../functions";
@@ -0,0 +1 @@
+export { concat } from "../functions";
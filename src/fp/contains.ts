@@ -0,0 +1 @@
+export { contains } from "../functions";
@@ -0,0 +1,26 @@
+import Maybe from "../Maybe";
+
+/**
+ * Runs a side effect if `maybe` is `Nothing`, and returns `maybe` unchanged.
+ * See `Maybe#elseDo`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param fn - The function to call if `maybe` is `Nothing`.
+ * @param maybe - (Optional) The `Maybe` to inspect. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns `maybe`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns it.
+ *
+ * @example
+ * pipe(
+ *   findUser(id),
+ *   elseDo(() => console.warn(`No user ${id}`))
+ * );
+ */
+export function elseDo<T>(fn: () => void, maybe: Maybe<T>): Maybe<T>;
+export function elseDo<T>(fn: () => void): (maybe: Maybe<T>) => Maybe<T>;
+export function elseDo<T>(fn: () => void, maybe?: Maybe<T>) {
+  const doit = (maybe: Maybe<T>) => maybe.elseDo(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
@@ -0,0 +1 @@
+export { equals } from "../functions";
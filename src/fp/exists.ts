@@ -0,0 +1 @@
+export { exists } from "../functions";
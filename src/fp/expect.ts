@@ -0,0 +1 @@
+export { expect } from "../functions";
@@ -0,0 +1 @@
+export { filter } from "../functions";
@@ -0,0 +1 @@
+export { firstJust } from "../functions";
@@ -0,0 +1 @@
+export { fold } from "../functions";
@@ -0,0 +1 @@
+export { fromEmpty } from "../functions";
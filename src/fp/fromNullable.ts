@@ -0,0 +1 @@
+export { fromNullable } from "../functions";
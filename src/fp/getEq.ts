@@ -0,0 +1 @@
+export { getEq } from "../functions";
@@ -0,0 +1 @@
+export { getFirstMonoid } from "../functions";
@@ -0,0 +1 @@
+export { getLastMonoid } from "../functions";
@@ -0,0 +1 @@
+export { getOrElse } from "../functions";
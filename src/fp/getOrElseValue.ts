@@ -0,0 +1 @@
+export { getOrElseValue } from "../functions";
@@ -0,0 +1 @@
+export { getOrNull } from "../functions";
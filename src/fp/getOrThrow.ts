@@ -0,0 +1 @@
+export { getOrThrow } from "../functions";
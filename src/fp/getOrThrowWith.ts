@@ -0,0 +1 @@
+export { getOrThrowWith } from "../functions";
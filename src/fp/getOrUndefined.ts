@@ -0,0 +1 @@
+export { getOrUndefined } from "../functions";
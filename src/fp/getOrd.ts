@@ -0,0 +1 @@
+export { getOrd } from "../functions";
@@ -0,0 +1 @@
+export { hashKey } from "../functions";
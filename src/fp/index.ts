@@ -0,0 +1,81 @@
+// src/fp/index.ts
+//
+// Data-last, curried functions for every Maybe capability, one module per
+// function, for use with `pipe`.
+
+// Re-export the Maybe type
+export type { default as Maybe, Just, Nothing } from '../Maybe';
+
+// Constructors
+export { fromEmpty } from './fromEmpty';
+export { fromNullable } from './fromNullable';
+export { just } from './just';
+export { maybe } from './maybe';
+export { nothing } from './nothing';
+
+// Refinements
+export { assertJust } from './assertJust';
+export { isJust } from './isJust';
+export { isNothing } from './isNothing';
+
+// Transformations
+export { and } from './and';
+export { andThen } from './andThen';
+export { ap } from './ap';
+export { assign } from './assign';
+export { filter } from './filter';
+export { lift } from './lift';
+export { map } from './map';
+export { map2 } from './map2';
+export { map3 } from './map3';
+export { path } from './path';
+export { prop } from './prop';
+export { unzip } from './unzip';
+export { zip } from './zip';
+export { zipWith } from './zipWith';
+
+// Alternatives
+export { firstJust } from './firstJust';
+export { oneOf } from './oneOf';
+export { or } from './or';
+export { orElse } from './orElse';
+export { xor } from './xor';
+
+// Side effects
+export { elseDo } from './elseDo';
+export { tap } from './tap';
+
+// Extracting values
+export { cata } from './cata';
+export { exists } from './exists';
+export { expect } from './expect';
+export { fold } from './fold';
+export { getOrElse } from './getOrElse';
+export { getOrElseValue } from './getOrElseValue';
+export { getOrNull } from './getOrNull';
+export { getOrThrow } from './getOrThrow';
+export { getOrThrowWith } from './getOrThrowWith';
+export { getOrUndefined } from './getOrUndefined';
+export { mapOr } from './mapOr';
+export { mapOrElse } from './mapOrElse';
+export { toArray } from './toArray';
+export { toResult } from './toResult';
+
+// Collections
+export { sequence } from './sequence';
+export { sequenceRecord } from './sequenceRecord';
+export { sequenceTuple } from './sequenceTuple';
+export { traverse } from './traverse';
+
+// Comparison
+export { compare } from './compare';
+export { contains } from './contains';
+export { equals } from './equals';
+export { getEq } from './getEq';
+export { getOrd } from './getOrd';
+export { hashKey } from './hashKey';
+
+// Semigroups and monoids
+export { concat } from './concat';
+export { getFirstMonoid } from './getFirstMonoid';
+export { getLastMonoid } from './getLastMonoid';
@@ -0,0 +1 @@
+export { isJust } from "../functions";
@@ -0,0 +1 @@
+export { isNothing } from "../functions";
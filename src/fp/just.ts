@@ -0,0 +1 @@
+export { just } from "../Maybe";
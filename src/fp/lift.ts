@@ -0,0 +1 @@
+export { lift } from "../functions";
@@ -0,0 +1 @@
+export { map } from "../functions";
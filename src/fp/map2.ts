@@ -0,0 +1 @@
+export { map2 } from "../functions";
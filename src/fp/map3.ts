@@ -0,0 +1 @@
+export { map3 } from "../functions";
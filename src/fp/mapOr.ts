@@ -0,0 +1 @@
+export { mapOr } from "../functions";
@@ -0,0 +1 @@
+export { mapOrElse } from "../functions";
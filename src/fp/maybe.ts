@@ -0,0 +1 @@
+export { maybe } from "../Maybe";
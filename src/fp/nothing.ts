@@ -0,0 +1 @@
+export { nothing } from "../Maybe";
@@ -0,0 +1 @@
+export { oneOf } from "../functions";
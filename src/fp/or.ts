@@ -0,0 +1 @@
+export { or } from "../functions";
@@ -0,0 +1,27 @@
+import Maybe from "../Maybe";
+
+/**
+ * Returns `maybe` if it's a `Just`, otherwise the `Maybe` returned by `fn`. See `Maybe#orElse`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param fn - Produces the fallback if `maybe` is `Nothing`.
+ * @param maybe - (Optional) The `Maybe` to provide a fallback for. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns `maybe` or the result of `fn()`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `Maybe<T>`.
+ *
+ * @example
+ * // Using orElse with both arguments
+ * orElse(() => just(10), nothing<number>()); // just(10)
+ *
+ * @example
+ * // Using orElse in its curried form
+ * pipe(fromCache(key), orElse(() => fromDisk(key)));
+ */
+export function orElse<T>(fn: () => Maybe<T>, maybe: Maybe<T>): Maybe<T>;
+export function orElse<T>(fn: () => Maybe<T>): (maybe: Maybe<T>) => Maybe<T>;
+export function orElse<T>(fn: () => Maybe<T>, maybe?: Maybe<T>) {
+  const doit = (maybe: Maybe<T>) => maybe.orElse(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
@@ -0,0 +1,46 @@
+import Maybe from "../Maybe";
+import { PathSource, PathValue, path as pathOf, ValidPath } from "../props";
+
+/**
+ * Follows a path of keys and array indices into the value in a `Maybe`. See `Maybe#path`.
+ *
+ * Unlike the top-level `path`, which reads from a plain object, this reads from a `Maybe`, so
+ * it can be used directly in a pipeline.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @template P - The path, as a tuple of keys and indices.
+ * @param keys - The path to follow.
+ * @param maybe - (Optional) The `Maybe` to read from. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns a `Maybe` of the value at the end of the path, or `Nothing`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe` and returns one.
+ *
+ * @example
+ * // Using path with both arguments
+ * path(["user", "addresses", 0, "city"], fetchPayload()); // Maybe<string>
+ *
+ * @example
+ * // Using path in its curried form
+ * pipe(fetchPayload(), path(["user", "addresses", 0, "city"]));
+ */
+export function path<T, const P extends readonly PropertyKey[]>(
+  keys: P & ValidPath<T, P>,
+  maybe: Maybe<T>
+): Maybe<PathValue<T, P>>;
+export function path<const P extends readonly PropertyKey[]>(
+  keys: P
+): <T extends PathSource<P> | null | undefined>(
+  maybe: Maybe<T>
+) => Maybe<PathValue<T, P>>;
+export function path(
+  keys: readonly PropertyKey[],
+  maybe?: Maybe<unknown>
+): unknown {
+  const walk = pathOf as (
+    keys: readonly PropertyKey[],
+    obj: unknown
+  ) => Maybe<unknown>;
+  const doit = (maybe: Maybe<unknown>) => maybe.andThen((a) => walk(keys, a));
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
@@ -0,0 +1,40 @@
+import Maybe from "../Maybe";
+import { PathSource, PathValue, prop as propOf } from "../props";
+
+/**
+ * Reads a property of the value in a `Maybe`. See `Maybe#prop`.
+ *
+ * Unlike the top-level `prop`, which reads from a plain object, this reads from a `Maybe`, so
+ * it can be used directly in a pipeline.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @template K - The type of the key.
+ * @param key - The key or array index to read.
+ * @param maybe - (Optional) The `Maybe` to read from. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns a `Maybe` of the property's value, or `Nothing`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe` and returns one.
+ *
+ * @example
+ * // Using prop with both arguments
+ * prop("name", just({ name: "Ada" })); // just("Ada")
+ *
+ * @example
+ * // Using prop in its curried form
+ * pipe(findUser(id), prop("email"), getOrElseValue("unknown"));
+ */
+export function prop<T, K extends keyof NonNullable<T>>(
+  key: K,
+  maybe: Maybe<T>
+): Maybe<PathValue<T, [K]>>;
+export function prop<K extends PropertyKey>(
+  key: K
+): <T extends PathSource<[K]> | null | undefined>(
+  maybe: Maybe<T>
+) => Maybe<PathValue<T, [K]>>;
+export function prop(key: PropertyKey, maybe?: Maybe<unknown>): unknown {
+  const read = propOf as (key: PropertyKey, obj: unknown) => Maybe<unknown>;
+  const doit = (maybe: Maybe<unknown>) => maybe.andThen((a) => read(key, a));
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
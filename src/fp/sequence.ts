@@ -0,0 +1 @@
+export { sequence } from "../functions";
@@ -0,0 +1 @@
+export { sequenceRecord } from "../functions";
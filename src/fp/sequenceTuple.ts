@@ -0,0 +1 @@
+export { sequenceTuple } from "../functions";
@@ -0,0 +1,29 @@
+import Maybe from "../Maybe";
+
+/**
+ * Runs a side effect with the value if `maybe` is a `Just`, and returns `maybe` unchanged.
+ * See `Maybe#do`.
+ *
+ * `do` is a reserved word, so this is the pipeable form of `Maybe#do`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param fn - The function to call with the value.
+ * @param maybe - (Optional) The `Maybe` to inspect. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns `maybe`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns it.
+ *
+ * @example
+ * pipe(
+ *   findUser(id),
+ *   tap((user) => console.log("Found", user.name)),
+ *   map((user) => user.email)
+ * );
+ */
+export function tap<T>(fn: (a: T) => void, maybe: Maybe<T>): Maybe<T>;
+export function tap<T>(fn: (a: T) => void): (maybe: Maybe<T>) => Maybe<T>;
+export function tap<T>(fn: (a: T) => void, maybe?: Maybe<T>) {
+  const doit = (maybe: Maybe<T>) => maybe.do(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
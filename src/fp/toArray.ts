@@ -0,0 +1 @@
+export { toArray } from "../arrays";
@@ -0,0 +1 @@
+export { toResult } from "../functions";
@@ -0,0 +1 @@
+export { traverse } from "../functions";
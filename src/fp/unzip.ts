@@ -0,0 +1 @@
+export { unzip } from "../functions";
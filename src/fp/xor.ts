@@ -0,0 +1 @@
+export { xor } from "../functions";
@@ -0,0 +1 @@
+export { zip } from "../functions";
@@ -0,0 +1 @@
+export { zipWith } from "../functions";
@@ -1,9 +1,38 @@
-import Catamorphism from "./Catamorphism";
-import Maybe, { just, nothing } from "./Maybe";
+import AsyncMaybe, { MaybeLike } from "./AsyncMaybe";
+import Catamorphism, { PartialCatamorphism } from "./Catamorphism";
+import {
+  defaultEquality,
+  defaultOrdering,
+  Equality,
+  NothingPlacement,
+  Ordering,
+} from "./Comparison";
+import Maybe, {
+  Just,
+  just,
+  Nothing,
+  nothing,
+  propagate,
+  tracedNothing,
+} from "./Maybe";
+import { Monoid, Semigroup } from "./Monoid";
+import NothingError from "./NothingError";
+import Result, { err, ok } from "./Result";
 
 export type Nullable = null | undefined;
 export type Emptyable = { length: number };
 
+/**
+ * Maps a tuple or record of `Maybe` types to the types of their values, keeping positions and keys.
+ *
+ * @example
+ * type T = MaybeValues<[Maybe<number>, Maybe<string>]>; // [number, string]
+ * type R = MaybeValues<{ a: Maybe<number> }>; // { a: number }
+ */
+export type MaybeValues<T> = {
+  [K in keyof T]: T[K] extends Maybe<infer A> ? A : never;
+};
+
 /**
  * Converts a potentially nullable value (`undefined` or `null`) into a `Maybe` type.
  * If the value is `undefined` or `null`, it returns `nothing()`.
@@ -15,7 +44,7 @@ export type Emptyable = { length: number };
  */
 export function fromNullable<T>(v: T | Nullable): Maybe<T> {
   if (typeof v === "undefined" || v === null) {
-    return nothing();
+    return tracedNothing({ operation: "fromNullable" });
   }
   return just(v);
 }
@@ -45,7 +74,7 @@ export function fromEmpty<T extends Emptyable>(xs: T): Maybe<T> {
  * @param maybe - The `Maybe` instance to check.
  * @returns A boolean indicating whether the `Maybe` is in the "Just" state.
  */
-export function isJust<T>(maybe: Maybe<T>): maybe is Maybe<T> & { state: T } {
+export function isJust<T>(maybe: Maybe<T>): maybe is Just<T> {
   return maybe.isJust();
 }
 
@@ -56,9 +85,7 @@ export function isJust<T>(maybe: Maybe<T>): maybe is Maybe<T> & { state: T } {
  * @param maybe - The `Maybe` instance to check.
  * @returns A type guard indicating whether the `Maybe` instance is in the "nothing" state.
  */
-export function isNothing<T>(
-  maybe: Maybe<T>
-): maybe is Maybe<T> & { state: null } {
+export function isNothing<T>(maybe: Maybe<T>): maybe is Nothing<T> {
   return maybe.isNothing();
 }
 
@@ -172,7 +199,7 @@ export function andThen<T, U>(fn: (x: T) => Maybe<U>, maybe?: Maybe<T>) {
  * @param value - The default value to return if the `Maybe` is `Nothing`.
  * @param maybe - (Optional) The `Maybe` instance to extract the value from. If omitted, the function returns a curried function expecting a `Maybe`.
  * @returns If `maybe` is provided, returns the value contained within the `Maybe` (if it's a `Just`) or the `value` (if it's `Nothing`).
- *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `T`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `T`, or the type of the default.
  *
  * @example
  * // Using getOrElseValue with both arguments
@@ -190,9 +217,14 @@ export function andThen<T, U>(fn: (x: T) => Maybe<U>, maybe?: Maybe<T>) {
  *
  * const nothingMaybe: Maybe<number> = nothing();
  * const defaultNumber: number = defaultValue(nothingMaybe); // defaultNumber is 10
+ *
+ * @example
+ * // Using getOrElseValue with a default of a different type
+ * const count: number | "unknown" = getOrElseValue("unknown", findCount());
  */
-export function getOrElseValue<T>(value: T): (maybe: Maybe<T>) => T;
 export function getOrElseValue<T>(value: T, maybe: Maybe<T>): T;
+export function getOrElseValue<U>(value: U): <T>(maybe: Maybe<T>) => T | U;
+export function getOrElseValue<T, U>(value: U, maybe: Maybe<T>): T | U;
 export function getOrElseValue<T>(value: T, maybe?: Maybe<T>) {
   const doit = (maybe: Maybe<T>) => maybe.getOrElseValue(value);
   return typeof maybe === "undefined" ? doit : doit(maybe);
@@ -211,7 +243,7 @@ export function getOrElseValue<T>(value: T, maybe?: Maybe<T>) {
  * @param fn - The function to evaluate and return if the `Maybe` is `Nothing`. It should return a value of type `T`.
  * @param maybe - (Optional) The `Maybe` instance to extract the value from. If omitted, the function returns a curried function expecting a `Maybe`.
  * @returns If `maybe` is provided, returns the value contained within the `Maybe` (if it's a `Just`) or the result of `fn()` (if it's `Nothing`).
- *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `T`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `T`, or the type of the default.
  *
  * @example
  * // Using getOrElse with both arguments
@@ -237,14 +269,159 @@ export function getOrElseValue<T>(value: T, maybe?: Maybe<T>) {
  *   const someValue = 2;
  *   return someValue * 5;
  * }, maybeNumber); // calculatedNumber is 10
+ *
+ * @example
+ * // Using getOrElse with a default of a different type
+ * const label: string | null = getOrElse(() => null, findLabel());
  */
 export function getOrElse<T>(fn: () => T, maybe: Maybe<T>): T;
-export function getOrElse<T>(fn: () => T): (maybe: Maybe<T>) => T;
+export function getOrElse<T, U>(fn: () => U, maybe: Maybe<T>): T | U;
+export function getOrElse<U>(fn: () => U): <T>(maybe: Maybe<T>) => T | U;
 export function getOrElse<T>(fn: () => T, maybe?: Maybe<T>) {
   const doit = (maybe: Maybe<T>) => maybe.getOrElse(fn);
   return typeof maybe === "undefined" ? doit : doit(maybe);
 }
 
+/**
+ * Returns the value contained within a `Maybe` if it's a `Just`, otherwise throws a
+ * `NothingError`. See `Maybe#getOrThrow`.
+ *
+ * It takes a single argument, so it can be passed to `pipe` as it is. Use `getOrThrowWith`
+ * to throw an error of your own.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param maybe - The `Maybe` to unwrap.
+ * @returns The value contained within the `Maybe`.
+ * @throws {NothingError} If the `Maybe` is `Nothing`.
+ *
+ * @example
+ * const config = getOrThrow(loadConfig());
+ * const port = pipe(fromNullable(process.env.PORT), getOrThrow);
+ */
+export function getOrThrow<T>(maybe: Maybe<T>): T {
+  return maybe.getOrThrow();
+}
+
+/**
+ * Returns the value contained within a `Maybe` if it's a `Just`, otherwise throws the error
+ * produced by `errorFactory`. See `Maybe#getOrThrow`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param errorFactory - Produces the error to throw.
+ * @param maybe - (Optional) The `Maybe` to unwrap. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns the value contained within the `Maybe`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `T`.
+ * @throws The result of `errorFactory()`, if the `Maybe` is `Nothing`.
+ *
+ * @example
+ * // Using getOrThrowWith with both arguments
+ * const user = getOrThrowWith(() => new NotFoundError("No user"), findUser(id));
+ *
+ * @example
+ * // Using getOrThrowWith in its curried form
+ * const requireUser = getOrThrowWith(() => new NotFoundError("No user"));
+ * const user = requireUser(findUser(id));
+ */
+export function getOrThrowWith<T>(
+  errorFactory: () => unknown,
+  maybe: Maybe<T>
+): T;
+export function getOrThrowWith(
+  errorFactory: () => unknown
+): <T>(maybe: Maybe<T>) => T;
+export function getOrThrowWith<T>(
+  errorFactory: () => unknown,
+  maybe?: Maybe<T>
+) {
+  const doit = (maybe: Maybe<T>) => maybe.getOrThrow(errorFactory);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Returns the value contained within a `Maybe` if it's a `Just`, otherwise throws a
+ * `NothingError` with the given message. See `Maybe#expect`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param message - Describes the value that was expected.
+ * @param maybe - (Optional) The `Maybe` to unwrap. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns the value contained within the `Maybe`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `T`.
+ * @throws A `NothingError` with `message`, if the `Maybe` is `Nothing`.
+ *
+ * @example
+ * // Using expect with both arguments
+ * const port = expect("PORT must be set", fromNullable(process.env.PORT));
+ *
+ * @example
+ * // Using expect in its curried form
+ * const token = pipe(fromNullable(headers.authorization), expect("Missing token"));
+ */
+export function expect<T>(message: string, maybe: Maybe<T>): T;
+export function expect(message: string): <T>(maybe: Maybe<T>) => T;
+export function expect<T>(message: string, maybe?: Maybe<T>) {
+  const doit = (maybe: Maybe<T>) => maybe.expect(message);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Returns the value contained within a `Maybe` if it's a `Just`, otherwise `undefined`.
+ * See `Maybe#getOrUndefined`.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param maybe - The `Maybe` to unwrap.
+ * @returns The value contained within the `Maybe`, or `undefined`.
+ *
+ * @example
+ * const titles = maybes.map(getOrUndefined); // (string | undefined)[]
+ */
+export function getOrUndefined<T>(maybe: Maybe<T>): T | undefined {
+  return maybe.getOrUndefined();
+}
+
+/**
+ * Returns the value contained within a `Maybe` if it's a `Just`, otherwise `null`.
+ * See `Maybe#getOrNull`.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param maybe - The `Maybe` to unwrap.
+ * @returns The value contained within the `Maybe`, or `null`.
+ *
+ * @example
+ * const row = { email: getOrNull(findEmail(user)) };
+ */
+export function getOrNull<T>(maybe: Maybe<T>): T | null {
+  return maybe.getOrNull();
+}
+
+/**
+ * Asserts that a `Maybe` is a `Just`, narrowing it for the rest of the scope.
+ *
+ * This is a TypeScript assertion function: after it returns, `maybe.value` can be read
+ * directly. If the `Maybe` is `Nothing`, it throws a `NothingError`.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param maybe - The `Maybe` to check.
+ * @param message - (Optional) Describes the value that was expected.
+ * @throws A `NothingError` if the `Maybe` is `Nothing`.
+ *
+ * @example
+ * const user = findUser(id);
+ * assertJust(user, `User ${id} must exist`);
+ * console.log(user.value.name);
+ */
+export function assertJust<T>(
+  maybe: Maybe<T>,
+  message?: string
+): asserts maybe is Just<T> {
+  if (maybe.isNothing()) {
+    throw new NothingError(message, maybe.trace);
+  }
+}
+
 /**
  * Performs pattern matching on a `Maybe` instance, executing different functions based on whether it's a `Just` or `Nothing`.
  *
@@ -257,7 +434,7 @@ export function getOrElse<T>(fn: () => T, maybe?: Maybe<T>) {
  *
  * @template T - The type of the value contained within the `Maybe`.
  * @template U - The type of the result produced by the `Catamorphism` functions.
- * @param matcher - A `Catamorphism` object containing `Just` and `Nothing` functions.
+ * @param matcher - A `Catamorphism` object containing `Just` and `Nothing` functions, or a `PartialCatamorphism` with a `_` default.
  * @param maybe - (Optional) The `Maybe` instance to perform pattern matching on. If omitted, the function returns a curried function expecting a `Maybe`.
  * @returns If `maybe` is provided, returns the result of applying the appropriate function from `matcher` to the `Maybe`.
  *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `U`.
@@ -294,13 +471,144 @@ export function getOrElse<T>(fn: () => T, maybe?: Maybe<T>) {
  * const nothingMaybe: Maybe<number> = nothing();
  * const nothingResult: string = describeMaybe(nothingMaybe); // nothingResult is "There is no value"
  */
-export function cata<T, U>(matcher: Catamorphism<T, U>, maybe: Maybe<T>): U;
-export function cata<T, U>(matcher: Catamorphism<T, U>): (maybe: Maybe<T>) => U;
-export function cata<T, U>(matcher: Catamorphism<T, U>, maybe?: Maybe<T>) {
+export function cata<T, U>(
+  matcher: Catamorphism<T, U> | PartialCatamorphism<T, U>,
+  maybe: Maybe<T>
+): U;
+export function cata<T, U>(
+  matcher: Catamorphism<T, U> | PartialCatamorphism<T, U>
+): (maybe: Maybe<T>) => U;
+export function cata<T, U>(
+  matcher: Catamorphism<T, U> | PartialCatamorphism<T, U>,
+  maybe?: Maybe<T>
+) {
   const doit = (maybe: Maybe<T>) => maybe.cata(matcher);
   return typeof maybe === "undefined" ? doit : doit(maybe);
 }
 
+/**
+ * Folds a `Maybe` into a single value: `onJust` is applied to the value of a `Just`, and
+ * `onNothing` is called for a `Nothing`. This is `cata` with positional arguments.
+ *
+ * This function is curried, meaning it can be called with either two or three arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @template U - The type of the result.
+ * @param onNothing - Produces the result for a `Nothing`.
+ * @param onJust - Produces the result from the value of a `Just`.
+ * @param maybe - (Optional) The `Maybe` to fold. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns `onJust(value)` or `onNothing()`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `U`.
+ *
+ * @example
+ * // Using fold with all arguments
+ * fold(() => "none", (x: number) => `got ${x}`, just(5)); // "got 5"
+ *
+ * @example
+ * // Using fold in its curried form
+ * const describe = fold(() => "none", (x: number) => `got ${x}`);
+ * describe(nothing()); // "none"
+ */
+export function fold<T, U>(
+  onNothing: () => U,
+  onJust: (x: T) => U,
+  maybe: Maybe<T>
+): U;
+export function fold<T, U>(
+  onNothing: () => U,
+  onJust: (x: T) => U
+): (maybe: Maybe<T>) => U;
+export function fold<T, U>(
+  onNothing: () => U,
+  onJust: (x: T) => U,
+  maybe?: Maybe<T>
+) {
+  const doit = (maybe: Maybe<T>) => maybe.fold(onNothing, onJust);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Applies a function to the value of a `Just` and returns the result, or returns a default
+ * value for a `Nothing`.
+ *
+ * This function is curried, meaning it can be called with either two or three arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @template U - The type of the result.
+ * @param defaultValue - The result for a `Nothing`.
+ * @param fn - The function to apply to the value of a `Just`.
+ * @param maybe - (Optional) The `Maybe` to map. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns `fn(value)` or `defaultValue`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `U`.
+ *
+ * @example
+ * // Using mapOr with all arguments
+ * mapOr(0, (s: string) => s.length, just("ada")); // 3
+ *
+ * @example
+ * // Using mapOr in its curried form
+ * const length = mapOr(0, (s: string) => s.length);
+ * length(nothing()); // 0
+ */
+export function mapOr<T, U>(
+  defaultValue: U,
+  fn: (x: T) => U,
+  maybe: Maybe<T>
+): U;
+export function mapOr<T, U>(
+  defaultValue: U,
+  fn: (x: T) => U
+): (maybe: Maybe<T>) => U;
+export function mapOr<T, U>(
+  defaultValue: U,
+  fn: (x: T) => U,
+  maybe?: Maybe<T>
+) {
+  const doit = (maybe: Maybe<T>) => maybe.mapOr(defaultValue, fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Applies a function to the value of a `Just` and returns the result, or computes a default
+ * for a `Nothing`.
+ *
+ * This function is curried, meaning it can be called with either two or three arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @template U - The type of the result.
+ * @param defaultFn - Produces the result for a `Nothing`.
+ * @param fn - The function to apply to the value of a `Just`.
+ * @param maybe - (Optional) The `Maybe` to map. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns `fn(value)` or `defaultFn()`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `U`.
+ *
+ * @example
+ * // Using mapOrElse with all arguments
+ * mapOrElse(() => guestName(), (user: User) => user.name, findUser(id));
+ *
+ * @example
+ * // Using mapOrElse in its curried form
+ * const nameOf = mapOrElse(() => guestName(), (user: User) => user.name);
+ * nameOf(findUser(id));
+ */
+export function mapOrElse<T, U>(
+  defaultFn: () => U,
+  fn: (x: T) => U,
+  maybe: Maybe<T>
+): U;
+export function mapOrElse<T, U>(
+  defaultFn: () => U,
+  fn: (x: T) => U
+): (maybe: Maybe<T>) => U;
+export function mapOrElse<T, U>(
+  defaultFn: () => U,
+  fn: (x: T) => U,
+  maybe?: Maybe<T>
+) {
+  const doit = (maybe: Maybe<T>) => maybe.mapOrElse(defaultFn, fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
 /**
  * Takes an array of `Maybe<T>` and returns a `Maybe<T[]>`. If all the `Maybe` values in the array are `Just`,
  * it returns a `Just` containing an array of the unwrapped values. If any are `Nothing`, it returns `Nothing`.
@@ -319,10 +627,10 @@ export function cata<T, U>(matcher: Catamorphism<T, U>, maybe?: Maybe<T>) {
 export function sequence<T>(maybes: Maybe<T>[]): Maybe<T[]> {
   const result: T[] = [];
   for (const maybe of maybes) {
-    if (maybe.state === null) {
-      return nothing();
+    if (!maybe.isJust()) {
+      return propagate(maybe);
     }
-    result.push(maybe.state);
+    result.push(maybe.value);
   }
   return just(result);
 }
@@ -373,6 +681,156 @@ export function traverse<T, U>(fn: (value: T) => Maybe<U>, values?: T[]) {
   return typeof values === "undefined" ? doit : doit(values);
 }
 
+/**
+ * Combines a fixed number of `Maybe` values of different types into a single `Maybe` of a tuple.
+ *
+ * Unlike `sequence`, which works with arrays of a single type, `sequenceTuple` keeps the type
+ * of each position. If any argument is `Nothing`, the result is `Nothing`.
+ *
+ * @template T - The tuple of `Maybe` types passed in.
+ * @param maybes - The `Maybe` values to combine.
+ * @returns A `Maybe` containing a tuple of the unwrapped values if all were `Just`, or `Nothing` if any were `Nothing`.
+ *
+ * @example
+ * const pair: Maybe<[number, string]> = sequenceTuple(just(1), just("a")); // pair is just([1, "a"])
+ * sequenceTuple(just(1), nothing<string>()); // nothing()
+ */
+export function sequenceTuple<T extends Maybe<unknown>[]>(
+  ...maybes: T
+): Maybe<MaybeValues<T>> {
+  return sequence(maybes) as Maybe<MaybeValues<T>>;
+}
+
+/**
+ * Combines a record of `Maybe` values into a single `Maybe` of a record with the same keys.
+ *
+ * This is a shorter alternative to a chain of `assign` calls when the values don't depend
+ * on each other. If any value is `Nothing`, the result is `Nothing`.
+ *
+ * @template R - The record of `Maybe` types passed in.
+ * @param record - An object whose own enumerable properties are `Maybe` values.
+ * @returns A `Maybe` containing a record of the unwrapped values if all were `Just`, or `Nothing` if any were `Nothing`.
+ *
+ * @example
+ * const scope: Maybe<{ user: User; team: Team }> = sequenceRecord({
+ *   user: findUser(userId),
+ *   team: findTeam(teamId),
+ * });
+ */
+export function sequenceRecord<R extends Record<string, Maybe<unknown>>>(
+  record: R
+): Maybe<MaybeValues<R>> {
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(record)) {
+    const maybe = record[key];
+    if (!maybe.isJust()) {
+      return propagate(maybe);
+    }
+    result[key] = maybe.value;
+  }
+  return just(result as MaybeValues<R>);
+}
+
+/**
+ * Takes an array of `Result<E, T>` and returns a `Result<E, T[]>`. If all the `Result` values in the
+ * array are `Ok`, it returns an `Ok` containing an array of the unwrapped values. Otherwise, it returns
+ * the first `Err`.
+ *
+ * @template E - The type of the errors.
+ * @template T - The type of the values contained within the `Ok` instances in the array.
+ * @param results - An array of `Result<E, T>` instances.
+ * @returns A `Result<E, T[]>` containing the unwrapped values if all were `Ok`, or the first `Err`.
+ *
+ * @example
+ * sequenceResult([ok(1), ok(2)]); // ok([1, 2])
+ * sequenceResult([ok(1), err("a"), err("b")]); // err("a")
+ */
+export function sequenceResult<E, T>(results: Result<E, T>[]): Result<E, T[]> {
+  const values: T[] = [];
+  for (const result of results) {
+    if (result.state.kind === "Err") {
+      return err(result.state.error);
+    }
+    values.push(result.state.value);
+  }
+  return ok(values);
+}
+
+/**
+ * Applies a function to each element of an array, producing a `Result` for each element,
+ * and then combines the results into a single `Result` the same way as `sequenceResult`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template E - The type of the errors.
+ * @template T - The type of the values in the input array.
+ * @template U - The type of the values contained within the `Ok` instances returned by the mapping function.
+ * @param fn - The function to apply to each value in the array.
+ * @param values - (Optional) The array of values to traverse. If omitted, the function returns a curried function expecting an array of `T`.
+ * @returns If `values` is provided, returns a `Result<E, U[]>`.
+ *          If `values` is not provided, returns a curried function that takes an array of `T` and returns a `Result<E, U[]>`.
+ *
+ * @example
+ * const parseAll = traverseResult((s: string) => isNaN(Number(s)) ? err(s) : ok(Number(s)));
+ * parseAll(["1", "2"]); // ok([1, 2])
+ * parseAll(["1", "two"]); // err("two")
+ */
+export function traverseResult<E, T, U>(
+  fn: (value: T) => Result<E, U>
+): (values: T[]) => Result<E, U[]>;
+export function traverseResult<E, T, U>(
+  fn: (value: T) => Result<E, U>,
+  values: T[]
+): Result<E, U[]>;
+export function traverseResult<E, T, U>(
+  fn: (value: T) => Result<E, U>,
+  values?: T[]
+) {
+  const doit = (values: T[]) => sequenceResult(values.map(fn));
+  return typeof values === "undefined" ? doit : doit(values);
+}
+
+/**
+ * Converts a `Maybe` into a `Result`, using `onNothing` to produce the error for a `Nothing`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template E - The type of the error.
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param onNothing - Produces the error if the `Maybe` is `Nothing`.
+ * @param maybe - (Optional) The `Maybe` to convert. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns a `Result<E, T>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `Result<E, T>`.
+ *
+ * @example
+ * const required = toResult(() => "value is required");
+ * required(just(5)); // ok(5)
+ * required(nothing()); // err("value is required")
+ */
+export function toResult<E, T>(
+  onNothing: () => E,
+  maybe: Maybe<T>
+): Result<E, T>;
+export function toResult<E>(
+  onNothing: () => E
+): <T>(maybe: Maybe<T>) => Result<E, T>;
+export function toResult<E, T>(onNothing: () => E, maybe?: Maybe<T>) {
+  const doit = <T>(maybe: Maybe<T>) => maybe.toResult(onNothing);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Converts a `Result` into a `Maybe`, discarding the error.
+ *
+ * @template E - The type of the error.
+ * @template T - The type of the value.
+ * @param result - The `Result` to convert.
+ * @returns `just(value)` for an `Ok`, or `nothing()` for an `Err`.
+ */
+export function toMaybe<E, T>(result: Result<E, T>): Maybe<T> {
+  return result.toMaybe();
+}
+
 /**
  * Returns `Nothing` if the predicate function returns `false` for the `Just` value, otherwise returns the original `Maybe`.
  *
@@ -415,8 +873,7 @@ export function filter<T>(
   fn: (value: T) => boolean
 ): (maybe: Maybe<T>) => Maybe<T>;
 export function filter<T>(fn: (value: T) => boolean, maybe?: Maybe<T>) {
-  const doit = (maybe: Maybe<T>) =>
-    maybe.andThen((x) => (fn(x) ? just(x) : nothing()));
+  const doit = (maybe: Maybe<T>) => maybe.filter(fn);
   return typeof maybe === "undefined" ? doit : doit(maybe);
 }
 
@@ -462,7 +919,7 @@ export function exists<T>(
   fn: (value: T) => boolean
 ): (maybe: Maybe<T>) => boolean;
 export function exists<T>(fn: (value: T) => boolean, maybe?: Maybe<T>) {
-  const doit = (maybe: Maybe<T>) => (maybe.isJust() ? fn(maybe.state) : false);
+  const doit = (maybe: Maybe<T>) => (maybe.isJust() ? fn(maybe.value) : false);
   return typeof maybe === "undefined" ? doit : doit(maybe);
 }
 
@@ -516,3 +973,770 @@ export function ap<T, U>(maybeFn: Maybe<(x: T) => U>, maybe?: Maybe<T>) {
   const doit = (maybe: Maybe<T>) => maybe.ap(maybeFn);
   return typeof maybe === "undefined" ? doit : doit(maybe);
 }
+
+/**
+ * Maps the argument types of a function to `Maybe` types, keeping positions.
+ *
+ * @example
+ * type T = MaybeArgs<[number, string]>; // [Maybe<number>, Maybe<string>]
+ */
+export type MaybeArgs<Args extends unknown[]> = {
+  [K in keyof Args]: Maybe<Args[K]>;
+};
+
+/**
+ * Lifts a function of any number of arguments into a function that takes a `Maybe` for each
+ * argument and returns a `Maybe` of the result.
+ *
+ * If every argument is `Just`, `fn` is applied to the unwrapped values and the result is wrapped
+ * in a `Just`. Otherwise, the lifted function returns `Nothing` at the first `Nothing` argument,
+ * without calling `fn`.
+ *
+ * This avoids currying `fn` by hand to use it with `ap`.
+ *
+ * @template Args - The argument types of `fn`.
+ * @template R - The return type of `fn`.
+ * @param fn - The function to lift.
+ * @returns A function that takes a `Maybe` for each argument of `fn` and returns a `Maybe<R>`.
+ *
+ * @example
+ * const add3 = (a: number, b: number, c: number) => a + b + c;
+ * const maybeAdd3 = lift(add3);
+ *
+ * maybeAdd3(just(1), just(2), just(3)); // just(6)
+ * maybeAdd3(just(1), nothing(), just(3)); // nothing()
+ */
+export function lift<Args extends unknown[], R>(
+  fn: (...args: Args) => R
+): (...maybes: MaybeArgs<Args>) => Maybe<R> {
+  return (...maybes) => {
+    const values: unknown[] = [];
+    for (const maybe of maybes as Maybe<unknown>[]) {
+      if (!maybe.isJust()) {
+        return propagate(maybe);
+      }
+      values.push(maybe.value);
+    }
+    return just(fn(...(values as Args)));
+  };
+}
+
+/**
+ * Combines two `Maybe` instances using a function of two arguments.
+ *
+ * If both are `Just`, `fn` is applied to both values and the result is wrapped in a `Just`.
+ * Otherwise, `Nothing` is returned and `fn` is not called.
+ *
+ * This function is curried, meaning it can be called with either one or three arguments.
+ *
+ * @template A - The type of the value contained within the first `Maybe`.
+ * @template B - The type of the value contained within the second `Maybe`.
+ * @template C - The type of the value returned by `fn`.
+ * @param fn - The function to apply to both values.
+ * @param ma - (Optional) The first `Maybe`. If omitted, the function returns a curried function expecting both `Maybe` instances.
+ * @param mb - (Optional) The second `Maybe`.
+ * @returns If the `Maybe` instances are provided, returns a new `Maybe<C>` with the result of `fn`, or `Nothing`.
+ *          If not, returns a curried function that takes a `Maybe<A>` and a `Maybe<B>` and returns a `Maybe<C>`.
+ *
+ * @example
+ * // Using map2 with all arguments
+ * map2((a: number, b: number) => a * b, just(2), just(3)); // just(6)
+ *
+ * @example
+ * // Using map2 in its curried form
+ * const multiply = map2((a: number, b: number) => a * b);
+ * multiply(just(2), nothing()); // nothing()
+ */
+export function map2<A, B, C>(
+  fn: (a: A, b: B) => C,
+  ma: Maybe<A>,
+  mb: Maybe<B>
+): Maybe<C>;
+export function map2<A, B, C>(
+  fn: (a: A, b: B) => C
+): (ma: Maybe<A>, mb: Maybe<B>) => Maybe<C>;
+export function map2<A, B, C>(
+  fn: (a: A, b: B) => C,
+  ma?: Maybe<A>,
+  mb?: Maybe<B>
+) {
+  const doit = (ma: Maybe<A>, mb: Maybe<B>) => ma.map2(mb, fn);
+  return typeof ma === "undefined" ? doit : doit(ma, mb as Maybe<B>);
+}
+
+/**
+ * Combines three `Maybe` instances using a function of three arguments.
+ *
+ * If all three are `Just`, `fn` is applied to the values and the result is wrapped in a `Just`.
+ * Otherwise, `Nothing` is returned and `fn` is not called.
+ *
+ * This function is curried, meaning it can be called with either one or four arguments.
+ *
+ * @template A - The type of the value contained within the first `Maybe`.
+ * @template B - The type of the value contained within the second `Maybe`.
+ * @template C - The type of the value contained within the third `Maybe`.
+ * @template D - The type of the value returned by `fn`.
+ * @param fn - The function to apply to the three values.
+ * @param ma - (Optional) The first `Maybe`. If omitted, the function returns a curried function expecting all three `Maybe` instances.
+ * @param mb - (Optional) The second `Maybe`.
+ * @param mc - (Optional) The third `Maybe`.
+ * @returns If the `Maybe` instances are provided, returns a new `Maybe<D>` with the result of `fn`, or `Nothing`.
+ *          If not, returns a curried function that takes the three `Maybe` instances and returns a `Maybe<D>`.
+ *
+ * @example
+ * // Using map3 with all arguments
+ * map3((a: number, b: number, c: number) => a + b + c, just(1), just(2), just(3)); // just(6)
+ *
+ * @example
+ * // Using map3 in its curried form
+ * const fullName = map3((first: string, middle: string, last: string) => `${first} ${middle} ${last}`);
+ * fullName(just("Ada"), nothing(), just("Lovelace")); // nothing()
+ */
+export function map3<A, B, C, D>(
+  fn: (a: A, b: B, c: C) => D,
+  ma: Maybe<A>,
+  mb: Maybe<B>,
+  mc: Maybe<C>
+): Maybe<D>;
+export function map3<A, B, C, D>(
+  fn: (a: A, b: B, c: C) => D
+): (ma: Maybe<A>, mb: Maybe<B>, mc: Maybe<C>) => Maybe<D>;
+export function map3<A, B, C, D>(
+  fn: (a: A, b: B, c: C) => D,
+  ma?: Maybe<A>,
+  mb?: Maybe<B>,
+  mc?: Maybe<C>
+) {
+  const doit = (ma: Maybe<A>, mb: Maybe<B>, mc: Maybe<C>) =>
+    ma.map3(mb, mc, fn);
+  return typeof ma === "undefined"
+    ? doit
+    : doit(ma, mb as Maybe<B>, mc as Maybe<C>);
+}
+
+/**
+ * Pairs the values of two `Maybe` instances. See `Maybe#zip`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ * In the curried form, the value of the `Maybe` passed last comes first in the pair, so it
+ * reads naturally in a pipeline.
+ *
+ * @template T - The type of the value contained within `maybe`.
+ * @template U - The type of the value contained within `other`.
+ * @param other - The `Maybe` whose value goes second in the pair.
+ * @param maybe - (Optional) The `Maybe` whose value goes first in the pair. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns a `Maybe<[T, U]>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `Maybe<[T, U]>`.
+ *
+ * @example
+ * // Using zip with both arguments
+ * zip(just("a"), just(1)); // just([1, "a"])
+ *
+ * @example
+ * // Using zip in its curried form
+ * pipe(findUser(id), zip(findTeam(teamId))); // Maybe<[User, Team]>
+ */
+export function zip<T, U>(other: Maybe<U>, maybe: Maybe<T>): Maybe<[T, U]>;
+export function zip<T, U>(other: Maybe<U>): (maybe: Maybe<T>) => Maybe<[T, U]>;
+export function zip<T, U>(other: Maybe<U>, maybe?: Maybe<T>) {
+  const doit = (maybe: Maybe<T>) => maybe.zip(other);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Combines the values of two `Maybe` instances using a function. See `Maybe#zipWith`.
+ *
+ * This function is curried, meaning it can be called with either two or three arguments.
+ *
+ * @template T - The type of the value contained within `maybe`.
+ * @template U - The type of the value contained within `other`.
+ * @template V - The type of the value returned by `fn`.
+ * @param other - The second `Maybe`.
+ * @param fn - The function to apply to both values.
+ * @param maybe - (Optional) The first `Maybe`. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns a new `Maybe<V>` with the result of `fn`, or `Nothing`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `Maybe<V>`.
+ *
+ * @example
+ * // Using zipWith with all arguments
+ * zipWith(just(3), (w: number, h: number) => w * h, just(2)); // just(6)
+ *
+ * @example
+ * // Using zipWith in its curried form
+ * const area = zipWith(findHeight(), (w: number, h: number) => w * h);
+ * area(findWidth()); // the area, if both are known
+ */
+export function zipWith<T, U, V>(
+  other: Maybe<U>,
+  fn: (a: T, b: U) => V,
+  maybe: Maybe<T>
+): Maybe<V>;
+export function zipWith<T, U, V>(
+  other: Maybe<U>,
+  fn: (a: T, b: U) => V
+): (maybe: Maybe<T>) => Maybe<V>;
+export function zipWith<T, U, V>(
+  other: Maybe<U>,
+  fn: (a: T, b: U) => V,
+  maybe?: Maybe<T>
+) {
+  const doit = (maybe: Maybe<T>) => maybe.zipWith(other, fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Splits a `Maybe` of a pair into a pair of `Maybe`s. See `Maybe#unzip`.
+ *
+ * @template T - The type of the first element of the pair.
+ * @template U - The type of the second element of the pair.
+ * @param maybe - The `Maybe` of a pair.
+ * @returns A tuple `[Maybe<T>, Maybe<U>]`.
+ *
+ * @example
+ * const [width, height] = unzip(parseSize("800x600")); // [just(800), just(600)]
+ */
+export function unzip<T, U>(maybe: Maybe<[T, U]>): [Maybe<T>, Maybe<U>] {
+  return maybe.unzip();
+}
+
+/**
+ * Checks whether two `Maybe` instances are equal, using `Object.is` for the contained values
+ * unless a custom equality is given. See `Maybe#equals`.
+ *
+ * Two `Nothing`s are equal, and a `Just` never equals a `Nothing`.
+ *
+ * This function is curried: the `Maybe` to compare always comes last, and may be omitted.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @param other - The `Maybe` to compare against.
+ * @param eq - (Optional) The equality used for the contained values. Defaults to `Object.is`.
+ * @param maybe - (Optional) The `Maybe` to compare. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns `true` if both `Maybe`s are equal, `false` otherwise.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `boolean`.
+ *
+ * @example
+ * equals(just(5), just(5)); // true
+ * equals(just(5), nothing()); // false
+ *
+ * @example
+ * const isFive = equals(just(5));
+ * [just(5), just(6), nothing()].filter(isFive); // [just(5)]
+ *
+ * @example
+ * const sameName = equals(just("Ada"), (a, b) => a.toLowerCase() === b.toLowerCase());
+ * sameName(just("ADA")); // true
+ */
+export function equals<T>(other: Maybe<T>, maybe: Maybe<T>): boolean;
+export function equals<T>(
+  other: Maybe<T>,
+  eq: Equality<T> | undefined,
+  maybe: Maybe<T>
+): boolean;
+export function equals<T>(
+  other: Maybe<T>,
+  eq?: Equality<T>
+): (maybe: Maybe<T>) => boolean;
+export function equals<T>(other: Maybe<T>, ...rest: unknown[]) {
+  const [maybe, eq] = splitLast<[Equality<T>?], T>(rest);
+  const doit = (maybe: Maybe<T>) => maybe.equals(other, eq);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Compares a `Maybe` to another `Maybe`. See `Maybe#compare`.
+ *
+ * By default, contained values are compared with the `<` and `>` operators, and `Nothing`
+ * sorts before any `Just`.
+ *
+ * This function is curried: the `Maybe` to compare always comes last, and may be omitted.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @param other - The `Maybe` to compare against.
+ * @param ord - (Optional) The ordering used for the contained values. Defaults to `<` and `>`.
+ * @param placement - (Optional) Whether `Nothing` sorts `"first"` (the default) or `"last"`.
+ * @param maybe - (Optional) The `Maybe` to compare. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns a negative number if `maybe` sorts before `other`, a positive number if it sorts after, `0` otherwise.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `number`.
+ *
+ * @example
+ * compare(just(2), just(1)); // -1, just(1) sorts before just(2)
+ * compare(just(2), nothing()); // -1, nothing() sorts before just(2)
+ *
+ * @example
+ * const byLength = (a: string, b: string) => a.length - b.length;
+ * compare(just("abc"), byLength, "last", nothing()); // 1, nothing() sorts last
+ */
+export function compare<T>(other: Maybe<T>, maybe: Maybe<T>): number;
+export function compare<T>(
+  other: Maybe<T>,
+  ord: Ordering<T> | undefined,
+  maybe: Maybe<T>
+): number;
+export function compare<T>(
+  other: Maybe<T>,
+  ord: Ordering<T> | undefined,
+  placement: NothingPlacement | undefined,
+  maybe: Maybe<T>
+): number;
+export function compare<T>(
+  other: Maybe<T>,
+  ord?: Ordering<T>,
+  placement?: NothingPlacement
+): (maybe: Maybe<T>) => number;
+export function compare<T>(other: Maybe<T>, ...rest: unknown[]) {
+  const [maybe, ord, placement] = splitLast<
+    [Ordering<T>?, NothingPlacement?],
+    T
+  >(rest);
+  const doit = (maybe: Maybe<T>) => maybe.compare(other, ord, placement);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Checks whether a `Maybe` is a `Just` containing the given value, using `Object.is` unless a
+ * custom equality is given. See `Maybe#contains`.
+ *
+ * This function is curried: the `Maybe` to check always comes last, and may be omitted.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param value - The value to look for.
+ * @param eq - (Optional) The equality used to compare the values. Defaults to `Object.is`.
+ * @param maybe - (Optional) The `Maybe` to check. If omitted, the function returns a curried function expecting a `Maybe`.
+ * @returns If `maybe` is provided, returns `true` if it is a `Just` containing `value`, `false` otherwise.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `boolean`.
+ *
+ * @example
+ * contains(5, just(5)); // true
+ * contains(5, nothing()); // false
+ *
+ * @example
+ * const hasAdmin = contains("admin");
+ * hasAdmin(fromNullable(user.role)); // true if the role is "admin"
+ *
+ * @example
+ * const caseless = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+ * contains("admin", caseless, just("Admin")); // true
+ */
+export function contains<T>(value: T, maybe: Maybe<T>): boolean;
+export function contains<T>(
+  value: T,
+  eq: Equality<T> | undefined,
+  maybe: Maybe<T>
+): boolean;
+export function contains<T>(
+  value: T,
+  eq?: Equality<T>
+): (maybe: Maybe<T>) => boolean;
+export function contains<T>(value: T, ...rest: unknown[]) {
+  const [maybe, eq] = splitLast<[Equality<T>?], T>(rest);
+  const doit = (maybe: Maybe<T>) => maybe.contains(value, eq);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Separates the trailing `Maybe` of a data-last call from the optional arguments before it.
+ * Returns `undefined` in its place when the call omitted it, for the curried form.
+ */
+const splitLast = <Options extends unknown[], T>(
+  args: readonly unknown[]
+): [Maybe<T> | undefined, ...Options] => {
+  const last = args[args.length - 1];
+  return last instanceof Maybe
+    ? [last as Maybe<T>, ...(args.slice(0, -1) as Options)]
+    : [undefined, ...(args as Options)];
+};
+
+/**
+ * Returns a stable string key for a `Maybe`. See `Maybe#hashKey`.
+ *
+ * @template T - The type of the value contained within the `Maybe`.
+ * @param maybe - The `Maybe` to describe.
+ * @returns A string key; `"Nothing"` for a `Nothing`.
+ *
+ * @example
+ * const unique = [...new Map(maybes.map((m) => [hashKey(m), m])).values()];
+ */
+export function hashKey<T>(maybe: Maybe<T>): string {
+  return maybe.hashKey();
+}
+
+/**
+ * Lifts an equality on values into an equality on `Maybe`s of those values.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @param eq - (Optional) The equality used for the contained values. Defaults to `Object.is`.
+ * @returns An `Equality<Maybe<T>>`.
+ *
+ * @example
+ * const eqById = getEq((a: User, b: User) => a.id === b.id);
+ * eqById(just(alice), just({ ...alice })); // true
+ */
+export function getEq<T>(
+  eq: Equality<T> = defaultEquality
+): Equality<Maybe<T>> {
+  return (a, b) => a.equals(b, eq);
+}
+
+/**
+ * Lifts an ordering on values into an ordering on `Maybe`s of those values, suitable for
+ * `Array.prototype.sort`.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @param ord - (Optional) The ordering used for the contained values. Defaults to the `<` and `>` operators.
+ * @param placement - (Optional) Whether `Nothing` sorts `"first"` (the default) or `"last"`.
+ * @returns An `Ordering<Maybe<T>>`.
+ *
+ * @example
+ * [just(3), nothing(), just(1)].sort(getOrd()); // [nothing(), just(1), just(3)]
+ * [just(3), nothing(), just(1)].sort(getOrd(undefined, "last")); // [just(1), just(3), nothing()]
+ */
+export function getOrd<T>(
+  ord: Ordering<T> = defaultOrdering,
+  placement: NothingPlacement = "first"
+): Ordering<Maybe<T>> {
+  return (a, b) => a.compare(b, ord, placement);
+}
+
+/**
+ * Returns `maybe` if it's a `Just`, otherwise `other`. See `Maybe#or`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @param other - The `Maybe` to fall back to.
+ * @param maybe - (Optional) The `Maybe` to check. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns `maybe` or `other`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `Maybe<T>`.
+ *
+ * @example
+ * // Using or with both arguments
+ * or(just(10), nothing()); // just(10)
+ *
+ * @example
+ * // Using or in its curried form
+ * const orDefault = or(just(10));
+ * orDefault(just(5)); // just(5)
+ */
+export function or<T>(other: Maybe<T>, maybe: Maybe<T>): Maybe<T>;
+export function or<T>(other: Maybe<T>): (maybe: Maybe<T>) => Maybe<T>;
+export function or<T>(other: Maybe<T>, maybe?: Maybe<T>) {
+  const doit = (maybe: Maybe<T>) => maybe.or(other);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Returns whichever of `maybe` and `other` is a `Just`, if exactly one of them is;
+ * otherwise `Nothing`. See `Maybe#xor`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @param other - The `Maybe` to compare with.
+ * @param maybe - (Optional) The `Maybe` to check. If omitted, the function returns a curried function expecting a `Maybe<T>`.
+ * @returns If `maybe` is provided, returns the one `Just`, or `Nothing`.
+ *          If `maybe` is not provided, returns a curried function that takes a `Maybe<T>` and returns a `Maybe<T>`.
+ *
+ * @example
+ * // Using xor with both arguments
+ * xor(just(10), nothing()); // just(10)
+ * xor(just(10), just(5)); // nothing()
+ *
+ * @example
+ * // Using xor in its curried form
+ * const onlyOne = xor(just(10));
+ * onlyOne(nothing()); // just(10)
+ */
+export function xor<T>(other: Maybe<T>, maybe: Maybe<T>): Maybe<T>;
+export function xor<T>(other: Maybe<T>): (maybe: Maybe<T>) => Maybe<T>;
+export function xor<T>(other: Maybe<T>, maybe?: Maybe<T>) {
+  const doit = (maybe: Maybe<T>) => maybe.xor(other);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Returns the first `Just` in an array of `Maybe`s, or `Nothing` if there is none.
+ *
+ * This replaces a chain of `or` calls, such as when resolving a setting from several sources.
+ *
+ * @template T - The type of the value contained within the `Maybe` instances in the array.
+ * @param maybes - An array of `Maybe<T>` instances, in order of preference.
+ * @returns The first `Just`, or the last `Nothing` (keeping its trace) if there is none.
+ *
+ * @example
+ * const port: Maybe<number> = firstJust([fromFlag("port"), fromEnv("PORT"), fromConfig("port")]);
+ */
+export function firstJust<T>(maybes: Maybe<T>[]): Maybe<T> {
+  let last: Maybe<T> = nothing();
+  for (const maybe of maybes) {
+    if (maybe.isJust()) {
+      return maybe;
+    }
+    last = maybe;
+  }
+  return last;
+}
+
+/**
+ * Calls each function in turn and returns the first `Just`, or `Nothing` if none produced one.
+ *
+ * This is the lazy form of `firstJust`: functions after the first `Just` are never called.
+ * It replaces a chain of `orElse` calls.
+ *
+ * @template T - The type of the value contained within the `Maybe` instances.
+ * @param thunks - An array of functions producing a `Maybe<T>`, in order of preference.
+ * @returns The first `Just`, or the last `Nothing` (keeping its trace) if there is none.
+ *
+ * @example
+ * const config = oneOf([
+ *   () => fromEnv("CONFIG"),
+ *   () => readFile("./config.json"),
+ *   () => readFile("~/.config.json"),
+ * ]); // Stops reading files as soon as one is found
+ */
+export function oneOf<T>(thunks: (() => Maybe<T>)[]): Maybe<T> {
+  let last: Maybe<T> = nothing();
+  for (const thunk of thunks) {
+    const maybe = thunk();
+    if (maybe.isJust()) {
+      return maybe;
+    }
+    last = maybe;
+  }
+  return last;
+}
+
+/**
+ * Lifts a `Semigroup` on values into a function combining two `Maybe`s of those values.
+ *
+ * Two `Just`s are combined with the semigroup. `Nothing` is the identity: combined with
+ * anything, it returns the other side. This makes the result a `Monoid<Maybe<T>>` with
+ * `nothing()` as `empty`.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @param semigroup - Combines two values.
+ * @returns A function combining two `Maybe<T>`s.
+ *
+ * @example
+ * const add = concat<number>({ concat: (a, b) => a + b });
+ * add(just(1), just(2)); // just(3)
+ * add(just(1), nothing()); // just(1)
+ * add(nothing(), nothing()); // nothing()
+ */
+export function concat<T>(
+  semigroup: Semigroup<T>
+): (a: Maybe<T>, b: Maybe<T>) => Maybe<T> {
+  return (a, b) =>
+    a.isJust() && b.isJust()
+      ? just(semigroup.concat(a.value, b.value))
+      : a.or(b);
+}
+
+/**
+ * Returns a `Monoid` that keeps the first `Just` when combining `Maybe`s, with `nothing()` as
+ * its identity.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @returns A `Monoid<Maybe<T>>`.
+ *
+ * @example
+ * const First = getFirstMonoid<number>();
+ * [nothing(), just(1), just(2)].reduce(First.concat, First.empty); // just(1)
+ */
+export function getFirstMonoid<T>(): Monoid<Maybe<T>> {
+  return { concat: (a, b) => a.or(b), empty: nothing() };
+}
+
+/**
+ * Returns a `Monoid` that keeps the last `Just` when combining `Maybe`s, with `nothing()` as
+ * its identity.
+ *
+ * @template T - The type of the value contained within the `Maybe`s.
+ * @returns A `Monoid<Maybe<T>>`.
+ *
+ * @example
+ * const Last = getLastMonoid<number>();
+ * [just(1), just(2), nothing()].reduce(Last.concat, Last.empty); // just(2)
+ */
+export function getLastMonoid<T>(): Monoid<Maybe<T>> {
+  return { concat: (a, b) => b.or(a), empty: nothing() };
+}
+
+/**
+ * Applies a (possibly asynchronous) function to the value of a `Maybe`, `Promise<Maybe>` or `AsyncMaybe`.
+ *
+ * This is the asynchronous counterpart of `map`. It is curried, so it can be used in point-free pipelines.
+ *
+ * @template T - The type of the value contained within the input.
+ * @template U - The type of the value contained within the output `AsyncMaybe`.
+ * @param fn - The function to apply. It may return a value or a promise of a value.
+ * @param maybe - (Optional) The `MaybeLike` to apply the function to. If omitted, the function returns a curried function expecting one.
+ * @returns If `maybe` is provided, returns an `AsyncMaybe<U>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `MaybeLike<T>` and returns an `AsyncMaybe<U>`.
+ *
+ * @example
+ * const result: Maybe<number> = await mapAsync(async (x: number) => x * 2, Promise.resolve(just(5))); // result is just(10)
+ */
+export function mapAsync<T, U>(
+  fn: (x: T) => U | PromiseLike<U>,
+  maybe: MaybeLike<T>
+): AsyncMaybe<U>;
+export function mapAsync<T, U>(
+  fn: (x: T) => U | PromiseLike<U>
+): (maybe: MaybeLike<T>) => AsyncMaybe<U>;
+export function mapAsync<T, U>(
+  fn: (x: T) => U | PromiseLike<U>,
+  maybe?: MaybeLike<T>
+) {
+  const doit = (maybe: MaybeLike<T>) => AsyncMaybe.from(maybe).map(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Chains a function returning a `Maybe`, `Promise<Maybe>` or `AsyncMaybe` onto a `MaybeLike` value.
+ *
+ * This is the asynchronous counterpart of `andThen`. It is curried, so it can be used in point-free pipelines.
+ *
+ * @template T - The type of the value contained within the input.
+ * @template U - The type of the value contained within the output `AsyncMaybe`.
+ * @param fn - The function to apply to the value if it resolves to a `Just`.
+ * @param maybe - (Optional) The `MaybeLike` to chain onto. If omitted, the function returns a curried function expecting one.
+ * @returns If `maybe` is provided, returns an `AsyncMaybe<U>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `MaybeLike<T>` and returns an `AsyncMaybe<U>`.
+ *
+ * @example
+ * const loadProfile = andThenAsync((user: User) => fetchProfile(user.profileId));
+ * const profile: Maybe<Profile> = await loadProfile(findUser(id));
+ */
+export function andThenAsync<T, U>(
+  fn: (x: T) => MaybeLike<U>,
+  maybe: MaybeLike<T>
+): AsyncMaybe<U>;
+export function andThenAsync<T, U>(
+  fn: (x: T) => MaybeLike<U>
+): (maybe: MaybeLike<T>) => AsyncMaybe<U>;
+export function andThenAsync<T, U>(
+  fn: (x: T) => MaybeLike<U>,
+  maybe?: MaybeLike<T>
+) {
+  const doit = (maybe: MaybeLike<T>) => AsyncMaybe.from(maybe).andThen(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Provides a fallback `Maybe`, `Promise<Maybe>` or `AsyncMaybe` when a `MaybeLike` value resolves to `Nothing`.
+ *
+ * This is the asynchronous counterpart of `Maybe#orElse`. It is curried, so it can be used in point-free pipelines.
+ *
+ * @template T - The type of the value contained within the input.
+ * @param fn - Produces the fallback if the input resolves to `Nothing`.
+ * @param maybe - (Optional) The `MaybeLike` to provide a fallback for. If omitted, the function returns a curried function expecting one.
+ * @returns If `maybe` is provided, returns an `AsyncMaybe<T>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `MaybeLike<T>` and returns an `AsyncMaybe<T>`.
+ *
+ * @example
+ * const withDatabase = orElseAsync(() => findInDatabase(id));
+ * const user: Maybe<User> = await withDatabase(findInCache(id));
+ */
+export function orElseAsync<T>(
+  fn: () => MaybeLike<T>,
+  maybe: MaybeLike<T>
+): AsyncMaybe<T>;
+export function orElseAsync<T>(
+  fn: () => MaybeLike<T>
+): (maybe: MaybeLike<T>) => AsyncMaybe<T>;
+export function orElseAsync<T>(fn: () => MaybeLike<T>, maybe?: MaybeLike<T>) {
+  const doit = (maybe: MaybeLike<T>) => AsyncMaybe.from(maybe).orElse(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Keeps the value of a `MaybeLike` only if it satisfies a (possibly asynchronous) predicate.
+ *
+ * This is the asynchronous counterpart of `filter`. It is curried, so it can be used in point-free pipelines.
+ *
+ * @template T - The type of the value contained within the input.
+ * @param fn - A predicate returning a boolean or a promise of a boolean.
+ * @param maybe - (Optional) The `MaybeLike` to filter. If omitted, the function returns a curried function expecting one.
+ * @returns If `maybe` is provided, returns an `AsyncMaybe<T>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `MaybeLike<T>` and returns an `AsyncMaybe<T>`.
+ *
+ * @example
+ * const onlyActive = filterAsync((user: User) => isActive(user.id));
+ * const user: Maybe<User> = await onlyActive(findUser(id));
+ */
+export function filterAsync<T>(
+  fn: (value: T) => boolean | PromiseLike<boolean>,
+  maybe: MaybeLike<T>
+): AsyncMaybe<T>;
+export function filterAsync<T>(
+  fn: (value: T) => boolean | PromiseLike<boolean>
+): (maybe: MaybeLike<T>) => AsyncMaybe<T>;
+export function filterAsync<T>(
+  fn: (value: T) => boolean | PromiseLike<boolean>,
+  maybe?: MaybeLike<T>
+) {
+  const doit = (maybe: MaybeLike<T>) => AsyncMaybe.from(maybe).filter(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Performs pattern matching on a `MaybeLike` value once it resolves.
+ *
+ * This is the asynchronous counterpart of `cata`. It is curried, so it can be used in point-free pipelines.
+ *
+ * @template T - The type of the value contained within the input.
+ * @template U - The type of the result produced by the `Catamorphism` functions.
+ * @param matcher - A `Catamorphism` whose branches may return a value or a promise of a value.
+ * @param maybe - (Optional) The `MaybeLike` to match on. If omitted, the function returns a curried function expecting one.
+ * @returns If `maybe` is provided, returns a `Promise<U>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `MaybeLike<T>` and returns a `Promise<U>`.
+ *
+ * @example
+ * const greeting: string = await cataAsync(
+ *   { Just: (user: User) => `Hello, ${user.name}`, Nothing: () => "Who are you?" },
+ *   findUser(id)
+ * );
+ */
+export function cataAsync<T, U>(
+  matcher: Catamorphism<T, U | PromiseLike<U>>,
+  maybe: MaybeLike<T>
+): Promise<U>;
+export function cataAsync<T, U>(
+  matcher: Catamorphism<T, U | PromiseLike<U>>
+): (maybe: MaybeLike<T>) => Promise<U>;
+export function cataAsync<T, U>(
+  matcher: Catamorphism<T, U | PromiseLike<U>>,
+  maybe?: MaybeLike<T>
+) {
+  const doit = (maybe: MaybeLike<T>) => AsyncMaybe.from(maybe).cata(matcher);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
+
+/**
+ * Resolves to the value of a `MaybeLike`, or to the result of `fn` if it resolves to `Nothing`.
+ *
+ * This is the asynchronous counterpart of `getOrElse`. It is curried, so it can be used in point-free pipelines.
+ *
+ * @template T - The type of the value contained within the input.
+ * @param fn - Produces the default value, or a promise of it.
+ * @param maybe - (Optional) The `MaybeLike` to extract the value from. If omitted, the function returns a curried function expecting one.
+ * @returns If `maybe` is provided, returns a `Promise<T>`.
+ *          If `maybe` is not provided, returns a curried function that takes a `MaybeLike<T>` and returns a `Promise<T>`.
+ *
+ * @example
+ * const name: string = await getOrElseAsync(() => "anonymous", findUserName(id));
+ */
+export function getOrElseAsync<T>(
+  fn: () => T | PromiseLike<T>,
+  maybe: MaybeLike<T>
+): Promise<T>;
+export function getOrElseAsync<T>(
+  fn: () => T | PromiseLike<T>
+): (maybe: MaybeLike<T>) => Promise<T>;
+export function getOrElseAsync<T>(
+  fn: () => T | PromiseLike<T>,
+  maybe?: MaybeLike<T>
+) {
+  const doit = (maybe: MaybeLike<T>) => AsyncMaybe.from(maybe).getOrElse(fn);
+  return typeof maybe === "undefined" ? doit : doit(maybe);
+}
@@ -1,27 +1,166 @@
 // src/index.ts
 
 // Re-export Maybe and its related functions
-export { just, default as Maybe, maybe, nothing } from './Maybe';
+export {
+  inspectSymbol,
+  Just,
+  just,
+  default as Maybe,
+  maybe,
+  Nothing,
+  nothing,
+} from './Maybe';
+export type { InspectOptions, MaybeJSON, Trace } from './Maybe';
+
+// Re-export the Static Land module for Maybe
+export { default as MaybeStatic } from './MaybeStatic';
+export type { StaticApplicative } from './MaybeStatic';
+
+// Re-export AsyncMaybe
+export { default as AsyncMaybe } from './AsyncMaybe';
+export type { MaybeLike } from './AsyncMaybe';
+
+// Re-export the decoders
+export * as decoders from './decoders';
+export type { Decoder, DecoderOutput, OptionalDecoder } from './decoders';
+
+// Re-export the devtools formatter
+export { installDevtoolsFormatter, maybeFormatter } from './devtools';
+export type { DevtoolsFormatter, JsonML } from './devtools';
+
+// Re-export NothingError
+export { default as NothingError } from './NothingError';
+
+// Re-export LazyMaybe
+export { default as LazyMaybe } from './LazyMaybe';
+export type { MaybeOrLazy } from './LazyMaybe';
+
+// Re-export array utilities
+export {
+  catMaybes,
+  filterMap,
+  listToMaybe,
+  mapMaybe,
+  partitionMaybes,
+  toArray,
+} from './arrays';
+
+// Re-export async iterable and stream operators
+export {
+  catMaybesStream,
+  compactAsync,
+  mapMaybeAsync,
+  mapMaybeStream,
+  sequenceAsyncIterable,
+  takeWhileJust,
+} from './streams';
+export type { AnyIterable } from './streams';
+
+// Re-export collection lookups
+export {
+  at,
+  find,
+  findIndex,
+  findLast,
+  head,
+  last,
+  lookup,
+  lookupKey,
+} from './lookup';
+export type { MapLike, SetLike } from './lookup';
+
+// Re-export pattern matching
+export { match, Matcher } from './match';
+
+// Re-export parsing functions
+export {
+  parseBigInt,
+  parseDate,
+  parseFloatStrict,
+  parseInteger,
+  parseJSON,
+  parseURL,
+  tryCatch,
+  tryCatchK,
+} from './parse';
+
+// Re-export composition helpers
+export { composeK, flow, pipe, pipeK } from './pipe';
+
+// Re-export property access
+export { path, prop } from './props';
+export type { PathSource, PathValue, ValidPath } from './props';
+
+// Re-export Result and its related functions
+export { default as Result, err, ok } from './Result';
+export type { ResultState } from './Result';
 
 // Re-export functions from functions.ts
 export {
   andThen,
+  andThenAsync,
   ap,
+  assertJust,
   cata,
-  Emptyable,
+  cataAsync,
+  compare,
+  concat,
+  contains,
+  equals,
   exists,
+  expect,
   filter,
+  filterAsync,
+  firstJust,
   fromEmpty,
+  fold,
   fromNullable,
+  getEq,
+  getFirstMonoid,
+  getLastMonoid,
+  getOrd,
   getOrElse,
+  getOrElseAsync,
   getOrElseValue,
+  getOrNull,
+  getOrThrow,
+  getOrThrowWith,
+  getOrUndefined,
+  hashKey,
   isJust,
   isNothing,
+  lift,
   map,
-  Nullable,
+  map2,
+  map3,
+  mapAsync,
+  mapOr,
+  mapOrElse,
+  oneOf,
+  or,
+  orElseAsync,
   sequence,
+  sequenceRecord,
+  sequenceResult,
+  sequenceTuple,
+  toMaybe,
+  toResult,
   traverse,
+  traverseResult,
+  unzip,
+  xor,
+  zip,
+  zipWith,
 } from './functions';
+export type { Emptyable, MaybeArgs, MaybeValues, Nullable } from './functions';
+
+// Re-export comparison types
+export type { Equality, NothingPlacement, Ordering } from './Comparison';
+
+// Re-export semigroup and monoid types
+export type { Monoid, Semigroup } from './Monoid';
 
-// Re-export Catamorphism type
+// Re-export Catamorphism types
 export type { default as Catamorphism } from './Catamorphism';
+export type { PartialCatamorphism } from './Catamorphism';
+export type { default as ResultCatamorphism } from './ResultCatamorphism';
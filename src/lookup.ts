@@ -0,0 +1,300 @@
+import Maybe, { just, nothing } from "./Maybe";
+
+/**
+ * Anything that can be looked up by key with `has` and `get`, such as a `Map` or a `WeakMap`.
+ *
+ * @template K - The type of the keys.
+ * @template V - The type of the values.
+ */
+export interface MapLike<K, V> {
+  has(key: K): boolean;
+  get(key: K): V | undefined;
+}
+
+/**
+ * Anything that can be checked for membership with `has`, such as a `Set` or a `WeakSet`.
+ *
+ * @template K - The type of the members.
+ */
+export interface SetLike<K> {
+  has(key: K): boolean;
+}
+
+/**
+ * Looks up a key in a `Map`, or checks membership of a `Set`.
+ *
+ * `has` is checked first, so a key stored with the value `undefined` gives `just(undefined)`
+ * rather than `Nothing`. For a `Set`, the key itself is returned when it is a member.
+ *
+ * The curried form has a single generic signature, so its result type follows the collection
+ * it is given, including when it is passed to `pipe`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template K - The type of the key.
+ * @template V - The type of the values in the map.
+ * @param key - The key to look up.
+ * @param collection - (Optional) The map or set to look in. If omitted, the function returns a curried function expecting the collection.
+ * @returns If `collection` is provided, returns `just(value)` if the key is present, or `Nothing`.
+ *          If `collection` is not provided, returns a curried function that takes the collection and returns that `Maybe`.
+ *
+ * @example
+ * // Using lookup with both arguments
+ * const ages = new Map([["ada", 36]]);
+ * lookup("ada", ages); // just(36)
+ * lookup("bob", ages); // nothing()
+ *
+ * @example
+ * // Using lookup in its curried form
+ * const findAda = lookup("ada");
+ * findAda(ages); // just(36)
+ * findAda(new Set(["ada"])); // just("ada")
+ */
+export function lookup<K, V>(key: K, collection: MapLike<K, V>): Maybe<V>;
+export function lookup<K>(key: K, collection: SetLike<K>): Maybe<K>;
+export function lookup<K>(
+  key: K
+): <C extends MapLike<K, unknown> | SetLike<K>>(
+  collection: C
+) => Maybe<C extends MapLike<K, infer V> ? V : K>;
+export function lookup<K, V>(key: K, collection?: MapLike<K, V> | SetLike<K>) {
+  const doit = (collection: MapLike<K, V> | SetLike<K>): Maybe<V | K> => {
+    if (!collection.has(key)) {
+      return nothing();
+    }
+    return "get" in collection && typeof collection.get === "function"
+      ? just(collection.get(key) as V)
+      : just(key);
+  };
+  return typeof collection === "undefined" ? doit : doit(collection);
+}
+
+/**
+ * Looks up an own property of an object.
+ *
+ * Unlike `fromNullable(record[key])`, this distinguishes a property set to `undefined` from a
+ * missing one, and ignores properties inherited from the prototype, such as `toString`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the object.
+ * @template K - The type of the key.
+ * @param key - The key to look up.
+ * @param record - (Optional) The object to look in. If omitted, the function returns a curried function expecting the object.
+ * @returns If `record` is provided, returns `just(record[key])` if it is an own property, or `Nothing`.
+ *          If `record` is not provided, returns a curried function that takes the object and returns that `Maybe`.
+ *
+ * @example
+ * // Using lookupKey with both arguments
+ * const counts: Record<string, number> = { apples: 3 };
+ * lookupKey("apples", counts); // just(3)
+ * lookupKey("toString", counts); // nothing()
+ *
+ * @example
+ * // Using lookupKey in its curried form
+ * const apples = lookupKey("apples");
+ * apples(counts); // just(3)
+ */
+export function lookupKey<T extends object, K extends keyof T>(
+  key: K,
+  record: T
+): Maybe<T[K]>;
+export function lookupKey<K extends PropertyKey>(
+  key: K
+): <T extends object>(record: T) => Maybe<T[K & keyof T]>;
+export function lookupKey<T extends object, K extends keyof T>(
+  key: K,
+  record?: T
+) {
+  const doit = (record: T): Maybe<T[K]> =>
+    Object.prototype.hasOwnProperty.call(record, key)
+      ? just(record[key])
+      : nothing();
+  return typeof record === "undefined" ? doit : doit(record);
+}
+
+/**
+ * Finds the first element of an array that satisfies a predicate.
+ *
+ * Unlike `Array.prototype.find`, a matching element that is `undefined` gives
+ * `just(undefined)` rather than looking like no match.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the elements.
+ * @template S - The type narrowed to by a type guard predicate.
+ * @param predicate - The function to test each element with.
+ * @param values - (Optional) The array to search. If omitted, the function returns a curried function expecting the array.
+ * @returns If `values` is provided, returns `just(element)` for the first match, or `Nothing`.
+ *          If `values` is not provided, returns a curried function that takes the array and returns that `Maybe`.
+ *
+ * @example
+ * // Using find with both arguments
+ * find((n: number) => n > 1, [1, 2, 3]); // just(2)
+ *
+ * @example
+ * // Using find in its curried form
+ * const firstAdmin = find((user: User) => user.isAdmin);
+ * firstAdmin(users); // Maybe<User>
+ */
+export function find<T, S extends T>(
+  predicate: (value: T, index: number) => value is S,
+  values: readonly T[]
+): Maybe<S>;
+export function find<T>(
+  predicate: (value: T, index: number) => boolean,
+  values: readonly T[]
+): Maybe<T>;
+export function find<T, S extends T>(
+  predicate: (value: T, index: number) => value is S
+): (values: readonly T[]) => Maybe<S>;
+export function find<T>(
+  predicate: (value: T, index: number) => boolean
+): (values: readonly T[]) => Maybe<T>;
+export function find<T>(
+  predicate: (value: T, index: number) => boolean,
+  values?: readonly T[]
+) {
+  const doit = (values: readonly T[]) =>
+    findIndex(predicate, values).map((index) => values[index]);
+  return typeof values === "undefined" ? doit : doit(values);
+}
+
+/**
+ * Finds the index of the first element of an array that satisfies a predicate.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the elements.
+ * @param predicate - The function to test each element with.
+ * @param values - (Optional) The array to search. If omitted, the function returns a curried function expecting the array.
+ * @returns If `values` is provided, returns `just(index)` for the first match, or `Nothing` instead of `-1`.
+ *          If `values` is not provided, returns a curried function that takes the array and returns that `Maybe`.
+ *
+ * @example
+ * findIndex((n: number) => n > 1, [1, 2, 3]); // just(1)
+ * findIndex((n: number) => n > 5, [1, 2, 3]); // nothing()
+ */
+export function findIndex<T>(
+  predicate: (value: T, index: number) => boolean,
+  values: readonly T[]
+): Maybe<number>;
+export function findIndex<T>(
+  predicate: (value: T, index: number) => boolean
+): (values: readonly T[]) => Maybe<number>;
+export function findIndex<T>(
+  predicate: (value: T, index: number) => boolean,
+  values?: readonly T[]
+) {
+  const doit = (values: readonly T[]): Maybe<number> => {
+    const index = values.findIndex(predicate);
+    return index === -1 ? nothing() : just(index);
+  };
+  return typeof values === "undefined" ? doit : doit(values);
+}
+
+/**
+ * Finds the last element of an array that satisfies a predicate.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the elements.
+ * @template S - The type narrowed to by a type guard predicate.
+ * @param predicate - The function to test each element with.
+ * @param values - (Optional) The array to search. If omitted, the function returns a curried function expecting the array.
+ * @returns If `values` is provided, returns `just(element)` for the last match, or `Nothing`.
+ *          If `values` is not provided, returns a curried function that takes the array and returns that `Maybe`.
+ *
+ * @example
+ * findLast((n: number) => n < 3, [1, 2, 3]); // just(2)
+ */
+export function findLast<T, S extends T>(
+  predicate: (value: T, index: number) => value is S,
+  values: readonly T[]
+): Maybe<S>;
+export function findLast<T>(
+  predicate: (value: T, index: number) => boolean,
+  values: readonly T[]
+): Maybe<T>;
+export function findLast<T, S extends T>(
+  predicate: (value: T, index: number) => value is S
+): (values: readonly T[]) => Maybe<S>;
+export function findLast<T>(
+  predicate: (value: T, index: number) => boolean
+): (values: readonly T[]) => Maybe<T>;
+export function findLast<T>(
+  predicate: (value: T, index: number) => boolean,
+  values?: readonly T[]
+) {
+  const doit = (values: readonly T[]): Maybe<T> => {
+    for (let index = values.length - 1; index >= 0; index--) {
+      if (predicate(values[index], index)) {
+        return just(values[index]);
+      }
+    }
+    return nothing();
+  };
+  return typeof values === "undefined" ? doit : doit(values);
+}
+
+/**
+ * Returns the element of an array at an index. Negative indices count back from the end, as
+ * with `Array.prototype.at`.
+ *
+ * An index outside the bounds of the array, or one that isn't an integer, gives `Nothing`.
+ * An element that is `undefined` gives `just(undefined)`.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the elements.
+ * @param index - The index of the element.
+ * @param values - (Optional) The array. If omitted, the function returns a curried function expecting the array.
+ * @returns If `values` is provided, returns `just(element)`, or `Nothing`.
+ *          If `values` is not provided, returns a curried function that takes the array and returns that `Maybe`.
+ *
+ * @example
+ * at(1, ["a", "b"]); // just("b")
+ * at(-1, ["a", "b"]); // just("b")
+ * at(2, ["a", "b"]); // nothing()
+ */
+export function at<T>(index: number, values: readonly T[]): Maybe<T>;
+export function at(index: number): <T>(values: readonly T[]) => Maybe<T>;
+export function at<T>(index: number, values?: readonly T[]) {
+  const doit = <T>(values: readonly T[]): Maybe<T> => {
+    const i = index < 0 ? values.length + index : index;
+    return Number.isInteger(i) && i >= 0 && i < values.length
+      ? just(values[i])
+      : nothing();
+  };
+  return typeof values === "undefined" ? doit : doit(values);
+}
+
+/**
+ * Returns the first element of an array, or `Nothing` if it is empty.
+ *
+ * @template T - The type of the elements.
+ * @param values - The array.
+ * @returns `just(values[0])`, or `Nothing`.
+ *
+ * @example
+ * head([1, 2, 3]); // just(1)
+ * head([]); // nothing()
+ */
+export function head<T>(values: readonly T[]): Maybe<T> {
+  return at(0, values);
+}
+
+/**
+ * Returns the last element of an array, or `Nothing` if it is empty.
+ *
+ * @template T - The type of the elements.
+ * @param values - The array.
+ * @returns `just(values[values.length - 1])`, or `Nothing`.
+ *
+ * @example
+ * last([1, 2, 3]); // just(3)
+ * last([]); // nothing()
+ */
+export function last<T>(values: readonly T[]): Maybe<T> {
+  return at(-1, values);
+}
@@ -0,0 +1,143 @@
+import Maybe from "./Maybe";
+
+/**
+ * The values a `when` pattern can be compared with.
+ */
+type Primitive = string | number | bigint | boolean | symbol | null | undefined;
+
+/**
+ * A builder for matching on a `Maybe` with guards on its value. Create one with `match`.
+ *
+ * Cases are tried in order, and the first one that matches produces the result. The type
+ * tracks which values are still unmatched: a type guard or a literal value removes its case,
+ * so `exhaustive()` only compiles once every value and `Nothing` are handled.
+ *
+ * @template A - The type of the value contained within the `Maybe`.
+ * @template R - The type of the values not yet matched by a case.
+ * @template B - The type of the results of the cases so far.
+ * @template N - Whether `Nothing` has been handled.
+ */
+export class Matcher<A, R = A, B = never, N extends boolean = false> {
+  private readonly maybe: Maybe<A>;
+  private readonly result: { value: B } | undefined;
+  // Only exists in the types, to tell matchers with a `Nothing` case apart.
+  declare private readonly handlesNothing: N;
+
+  /**
+   * Creates a new `Matcher`. Use `match` instead.
+   *
+   * @param maybe - The `Maybe` being matched.
+   * @param result - (Optional) The result of the case that matched, if any.
+   */
+  constructor(maybe: Maybe<A>, result?: { value: B }) {
+    this.maybe = maybe;
+    this.result = result;
+  }
+
+  /**
+   * Adds a case for a `Just` whose value satisfies a predicate, or equals a given value.
+   *
+   * A function pattern is always treated as a predicate. Any other pattern must be a primitive,
+   * and is compared to the value with `Object.is`. A type guard or a literal value removes the
+   * matched values from the ones left to handle. Objects would only match by reference, so
+   * match them with a predicate instead.
+   *
+   * @param pattern - A predicate or type guard on the value, or a value to compare with.
+   * @param fn - Produces the result from the matched value.
+   * @returns A new `Matcher` with this case added.
+   *
+   * @example
+   * match(maybeStatus)
+   *   .when("active", () => "Active")
+   *   .when((s) => s.startsWith("pending"), (s) => `Waiting (${s})`)
+   *   .otherwise(() => "Unknown");
+   */
+  public when<S extends R, C>(
+    pattern: (value: R) => value is S,
+    fn: (value: S) => C
+  ): Matcher<A, Exclude<R, S>, B | C, N>;
+  public when<C>(
+    pattern: (value: R) => boolean,
+    fn: (value: R) => C
+  ): Matcher<A, R, B | C, N>;
+  public when<V extends R & Primitive, C>(
+    pattern: V,
+    fn: (value: V) => C
+  ): Matcher<A, Exclude<R, V>, B | C, N>;
+  public when(pattern: unknown, fn: (value: never) => unknown): unknown {
+    if (this.result || !this.maybe.isJust()) {
+      return this;
+    }
+    const value = this.maybe.value;
+    const matches =
+      typeof pattern === "function"
+        ? (pattern as (value: unknown) => boolean)(value)
+        : Object.is(pattern, value);
+    return matches
+      ? new Matcher(this.maybe, { value: fn(value as never) })
+      : this;
+  }
+
+  /**
+   * Adds the case for `Nothing`.
+   *
+   * @param fn - Produces the result for a `Nothing`.
+   * @returns A new `Matcher` with `Nothing` handled.
+   */
+  public nothing<C>(fn: () => C): Matcher<A, R, B | C, true> {
+    if (this.result || this.maybe.isJust()) {
+      return this as Matcher<A, R, B | C, true>;
+    }
+    return new Matcher<A, R, B | C, true>(this.maybe, { value: fn() });
+  }
+
+  /**
+   * Returns the result of the case that matched, or of `fn` if none did. `fn` handles
+   * `Nothing` too, unless it has its own case.
+   *
+   * @param fn - Produces the result when no case matched.
+   * @returns The result of the matching case, or `fn()`.
+   */
+  public otherwise<C>(fn: () => C): B | C {
+    return this.result ? this.result.value : fn();
+  }
+
+  /**
+   * Returns the result of the case that matched. This only compiles once every value and
+   * `Nothing` have a case, so adding a new member to a union type flags each match that
+   * needs updating.
+   *
+   * @returns The result of the matching case.
+   * @throws {Error} If no case matched, which the types rule out.
+   *
+   * @example
+   * const label: string = match(maybeColor)
+   *   .when("red", () => "Stop")
+   *   .when("green", () => "Go")
+   *   .nothing(() => "Off")
+   *   .exhaustive();
+   */
+  public exhaustive(this: Matcher<A, never, B, true>): B {
+    if (!this.result) {
+      throw new Error(`No case matched ${this.maybe.hashKey()}`);
+    }
+    return this.result.value;
+  }
+}
+
+/**
+ * Starts matching on a `Maybe` with guards on its value. See `Matcher`.
+ *
+ * @template A - The type of the value contained within the `Maybe`.
+ * @param maybe - The `Maybe` to match on.
+ * @returns A `Matcher` with no cases.
+ *
+ * @example
+ * const message: string = match(findUser(id))
+ *   .when((user) => user.isAdmin, () => "Welcome back, admin")
+ *   .when((user) => user.isNew, (user) => `Welcome, ${user.name}`)
+ *   .otherwise(() => "Please sign in");
+ */
+export function match<A>(maybe: Maybe<A>): Matcher<A> {
+  return new Matcher<A>(maybe);
+}
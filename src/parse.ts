@@ -0,0 +1,155 @@
+import { fromNullable } from "./functions";
+import Maybe, { nothing } from "./Maybe";
+
+/**
+ * Runs a function that may throw, returning its result as a `Maybe`.
+ *
+ * If `thunk` throws, `onError` (if given) is called with the error and `Nothing` is returned.
+ * Otherwise, the result goes through `fromNullable`, so `null` and `undefined` also give `Nothing`.
+ *
+ * @template T - The type of the value returned by `thunk`.
+ * @param thunk - The function to run.
+ * @param onError - (Optional) Called with the error if `thunk` throws, e.g. for logging.
+ * @returns `just(result)`, or `Nothing` if `thunk` threw or returned a nullish value.
+ *
+ * @example
+ * const config = tryCatch(() => readConfigSync(path), (e) => logger.warn(e));
+ */
+export function tryCatch<T>(
+  thunk: () => T,
+  onError?: (error: unknown) => void
+): Maybe<T> {
+  let result: T;
+  try {
+    result = thunk();
+  } catch (error) {
+    onError?.(error);
+    return nothing();
+  }
+  return fromNullable(result);
+}
+
+/**
+ * Converts a function that may throw into one that returns a `Maybe`. See `tryCatch`.
+ *
+ * @template Args - The argument types of `fn`.
+ * @template T - The type of the value returned by `fn`.
+ * @param fn - The function to convert.
+ * @param onError - (Optional) Called with the error whenever `fn` throws, e.g. for logging.
+ * @returns A function taking the same arguments as `fn` and returning a `Maybe<T>`.
+ *
+ * @example
+ * const safeDecode = tryCatchK(decodeURIComponent);
+ * safeDecode("%E0%A4%A"); // nothing()
+ * safeDecode("a%20b"); // just("a b")
+ */
+export function tryCatchK<Args extends unknown[], T>(
+  fn: (...args: Args) => T,
+  onError?: (error: unknown) => void
+): (...args: Args) => Maybe<T> {
+  return (...args) => tryCatch(() => fn(...args), onError);
+}
+
+/**
+ * Parses a JSON string. Invalid JSON, and the JSON `null`, give `Nothing`.
+ *
+ * The parsed value is `unknown`; check its shape before using it.
+ *
+ * @param text - The JSON text to parse.
+ * @returns A `Maybe` of the parsed value.
+ *
+ * @example
+ * parseJSON('{"a":1}'); // just({ a: 1 })
+ * parseJSON("{a:1}"); // nothing()
+ */
+export function parseJSON(text: string): Maybe<unknown> {
+  return tryCatch((): unknown => JSON.parse(text));
+}
+
+/**
+ * Parses a decimal integer. Unlike `parseInt`, the whole string must be an integer: partial
+ * parses like `"12abc"`, decimals like `"1.5"` and empty strings give `Nothing`. Surrounding
+ * whitespace is allowed. Integers too large to be represented exactly also give `Nothing`.
+ *
+ * @param text - The text to parse.
+ * @returns A `Maybe` of the integer.
+ *
+ * @example
+ * parseInteger("42"); // just(42)
+ * parseInteger("-7 "); // just(-7)
+ * parseInteger("12abc"); // nothing()
+ */
+export function parseInteger(text: string): Maybe<number> {
+  if (!/^\s*[+-]?\d+\s*$/.test(text)) {
+    return nothing();
+  }
+  const value = Number(text);
+  return Number.isSafeInteger(value) ? fromNullable(value) : nothing();
+}
+
+/**
+ * Parses a decimal number. Unlike `parseFloat`, the whole string must be a number: partial
+ * parses like `"1.5kg"` give `Nothing`. Unlike `Number`, empty strings, hexadecimal and
+ * `Infinity` also give `Nothing`. Surrounding whitespace is allowed.
+ *
+ * @param text - The text to parse.
+ * @returns A `Maybe` of the number.
+ *
+ * @example
+ * parseFloatStrict("1.5"); // just(1.5)
+ * parseFloatStrict("-2e3"); // just(-2000)
+ * parseFloatStrict("1.5kg"); // nothing()
+ */
+export function parseFloatStrict(text: string): Maybe<number> {
+  if (!/^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/.test(text)) {
+    return nothing();
+  }
+  const value = Number(text);
+  return Number.isFinite(value) ? fromNullable(value) : nothing();
+}
+
+/**
+ * Creates a `Date`, giving `Nothing` instead of an `Invalid Date`.
+ *
+ * @param input - A date string, a timestamp in milliseconds, or a `Date`.
+ * @returns A `Maybe` of the new `Date`.
+ *
+ * @example
+ * parseDate("2024-02-29"); // just(Date)
+ * parseDate("not a date"); // nothing()
+ */
+export function parseDate(input: string | number | Date): Maybe<Date> {
+  const date = new Date(input);
+  return isNaN(date.getTime()) ? nothing() : fromNullable(date);
+}
+
+/**
+ * Creates a `URL`, giving `Nothing` instead of throwing for an invalid URL.
+ *
+ * @param text - The URL, absolute or relative to `base`.
+ * @param base - (Optional) The base URL to resolve a relative `text` against.
+ * @returns A `Maybe` of the new `URL`.
+ *
+ * @example
+ * parseURL("https://example.com/a"); // just(URL)
+ * parseURL("/a", "https://example.com"); // just(URL)
+ * parseURL("not a url"); // nothing()
+ */
+export function parseURL(text: string, base?: string | URL): Maybe<URL> {
+  return tryCatch(() => new URL(text, base));
+}
+
+/**
+ * Parses a `bigint`, giving `Nothing` instead of throwing. Empty strings, which `BigInt`
+ * would read as `0n`, also give `Nothing`.
+ *
+ * @param text - The text to parse.
+ * @returns A `Maybe` of the `bigint`.
+ *
+ * @example
+ * parseBigInt("9007199254740993"); // just(9007199254740993n)
+ * parseBigInt("1.5"); // nothing()
+ */
+export function parseBigInt(text: string): Maybe<bigint> {
+  return text.trim() === "" ? nothing() : tryCatch(() => BigInt(text));
+}
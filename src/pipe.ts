@@ -0,0 +1,529 @@
+import Maybe from "./Maybe";
+
+/**
+ * Passes a value through a sequence of functions, from left to right.
+ *
+ * `pipe(a, f, g)` is `g(f(a))`. The curried functions of this library are designed to be used
+ * this way, and the types are inferred at every step for up to 12 functions.
+ *
+ * @param a - The starting value.
+ * @param fns - The functions to apply, in order. Each receives the result of the previous one.
+ * @returns The result of the last function, or `a` if there are none.
+ *
+ * @example
+ * const label: string = pipe(
+ *   fromNullable(user.nickname),
+ *   map((name: string) => name.trim()),
+ *   filter((name: string) => name.length > 0),
+ *   getOrElseValue("anonymous")
+ * );
+ */
+export function pipe<A>(a: A): A;
+export function pipe<A, B>(a: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D
+): D;
+export function pipe<A, B, C, D, E>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E
+): E;
+export function pipe<A, B, C, D, E, F>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J
+): J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K
+): K;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L
+): L;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L,
+  lm: (l: L) => M
+): M;
+export function pipe(a: unknown, ...fns: ((x: unknown) => unknown)[]): unknown {
+  return applyAll(a, fns);
+}
+
+/**
+ * Composes functions from left to right into a new function.
+ *
+ * `flow(f, g)` is `(...args) => g(f(...args))`. The first function may take any number of
+ * arguments; the rest take the result of the previous one. The types are inferred at every
+ * step for up to 12 functions.
+ *
+ * @param fns - The functions to compose, in the order they are applied.
+ * @returns A function taking the arguments of the first function and returning the result of the last.
+ *
+ * @example
+ * const displayName = flow(
+ *   (user: User) => fromNullable(user.nickname),
+ *   getOrElseValue("anonymous")
+ * );
+ * displayName(user); // string
+ */
+export function flow<Args extends unknown[], B>(
+  ab: (...args: Args) => B
+): (...args: Args) => B;
+export function flow<Args extends unknown[], B, C>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C
+): (...args: Args) => C;
+export function flow<Args extends unknown[], B, C, D>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D
+): (...args: Args) => D;
+export function flow<Args extends unknown[], B, C, D, E>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E
+): (...args: Args) => E;
+export function flow<Args extends unknown[], B, C, D, E, F>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F
+): (...args: Args) => F;
+export function flow<Args extends unknown[], B, C, D, E, F, G>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G
+): (...args: Args) => G;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H
+): (...args: Args) => H;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I
+): (...args: Args) => I;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J
+): (...args: Args) => J;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I, J, K>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K
+): (...args: Args) => K;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I, J, K, L>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L
+): (...args: Args) => L;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L,
+  lm: (l: L) => M
+): (...args: Args) => M;
+export function flow(
+  ...fns: ((...args: unknown[]) => unknown)[]
+): (...args: unknown[]) => unknown {
+  const [first, ...rest] = fns;
+  return (...args) => applyAll(first(...args), rest);
+}
+
+/**
+ * Composes functions that return a `Maybe` from left to right, chaining them with `andThen`.
+ * This is Kleisli composition for `Maybe`.
+ *
+ * `pipeK(f, g)` is `(a) => f(a).andThen(g)`. The first `Nothing` stops the chain, and the
+ * remaining functions are not called. The types are inferred at every step for up to 12 functions.
+ *
+ * @param fns - The functions to compose, in the order they are applied.
+ * @returns A function taking the argument of the first function and returning the `Maybe` from the last.
+ *
+ * @example
+ * const cityOfUser = pipeK(
+ *   (id: string) => findUser(id),
+ *   (user: User) => fromNullable(user.address),
+ *   (address: Address) => fromNullable(address.city)
+ * );
+ * cityOfUser("ada"); // Maybe<string>
+ */
+export function pipeK<A, B>(ab: (a: A) => Maybe<B>): (a: A) => Maybe<B>;
+export function pipeK<A, B, C>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>
+): (a: A) => Maybe<C>;
+export function pipeK<A, B, C, D>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>
+): (a: A) => Maybe<D>;
+export function pipeK<A, B, C, D, E>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>
+): (a: A) => Maybe<E>;
+export function pipeK<A, B, C, D, E, F>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>
+): (a: A) => Maybe<F>;
+export function pipeK<A, B, C, D, E, F, G>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>,
+  fg: (f: F) => Maybe<G>
+): (a: A) => Maybe<G>;
+export function pipeK<A, B, C, D, E, F, G, H>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>,
+  fg: (f: F) => Maybe<G>,
+  gh: (g: G) => Maybe<H>
+): (a: A) => Maybe<H>;
+export function pipeK<A, B, C, D, E, F, G, H, I>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>,
+  fg: (f: F) => Maybe<G>,
+  gh: (g: G) => Maybe<H>,
+  hi: (h: H) => Maybe<I>
+): (a: A) => Maybe<I>;
+export function pipeK<A, B, C, D, E, F, G, H, I, J>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>,
+  fg: (f: F) => Maybe<G>,
+  gh: (g: G) => Maybe<H>,
+  hi: (h: H) => Maybe<I>,
+  ij: (i: I) => Maybe<J>
+): (a: A) => Maybe<J>;
+export function pipeK<A, B, C, D, E, F, G, H, I, J, K>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>,
+  fg: (f: F) => Maybe<G>,
+  gh: (g: G) => Maybe<H>,
+  hi: (h: H) => Maybe<I>,
+  ij: (i: I) => Maybe<J>,
+  jk: (j: J) => Maybe<K>
+): (a: A) => Maybe<K>;
+export function pipeK<A, B, C, D, E, F, G, H, I, J, K, L>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>,
+  fg: (f: F) => Maybe<G>,
+  gh: (g: G) => Maybe<H>,
+  hi: (h: H) => Maybe<I>,
+  ij: (i: I) => Maybe<J>,
+  jk: (j: J) => Maybe<K>,
+  kl: (k: K) => Maybe<L>
+): (a: A) => Maybe<L>;
+export function pipeK<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+  ab: (a: A) => Maybe<B>,
+  bc: (b: B) => Maybe<C>,
+  cd: (c: C) => Maybe<D>,
+  de: (d: D) => Maybe<E>,
+  ef: (e: E) => Maybe<F>,
+  fg: (f: F) => Maybe<G>,
+  gh: (g: G) => Maybe<H>,
+  hi: (h: H) => Maybe<I>,
+  ij: (i: I) => Maybe<J>,
+  jk: (j: J) => Maybe<K>,
+  kl: (k: K) => Maybe<L>,
+  lm: (l: L) => Maybe<M>
+): (a: A) => Maybe<M>;
+export function pipeK(
+  ...fns: ((x: unknown) => Maybe<unknown>)[]
+): (a: unknown) => Maybe<unknown> {
+  return chainAll(fns);
+}
+
+/**
+ * Composes functions that return a `Maybe` from right to left, chaining them with `andThen`.
+ * This is `pipeK` with the functions in mathematical order.
+ *
+ * `composeK(g, f)` is `(a) => f(a).andThen(g)`. The types are inferred at every step for up
+ * to 12 functions.
+ *
+ * @param fns - The functions to compose, in the reverse of the order they are applied.
+ * @returns A function taking the argument of the last function and returning the `Maybe` from the first.
+ *
+ * @example
+ * const cityOfUser = composeK(
+ *   (address: Address) => fromNullable(address.city),
+ *   (user: User) => fromNullable(user.address),
+ *   (id: string) => findUser(id)
+ * );
+ */
+export function composeK<A, B>(ab: (a: A) => Maybe<B>): (a: A) => Maybe<B>;
+export function composeK<A, B, C>(
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<C>;
+export function composeK<A, B, C, D>(
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<D>;
+export function composeK<A, B, C, D, E>(
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<E>;
+export function composeK<A, B, C, D, E, F>(
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<F>;
+export function composeK<A, B, C, D, E, F, G>(
+  fg: (f: F) => Maybe<G>,
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<G>;
+export function composeK<A, B, C, D, E, F, G, H>(
+  gh: (g: G) => Maybe<H>,
+  fg: (f: F) => Maybe<G>,
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<H>;
+export function composeK<A, B, C, D, E, F, G, H, I>(
+  hi: (h: H) => Maybe<I>,
+  gh: (g: G) => Maybe<H>,
+  fg: (f: F) => Maybe<G>,
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<I>;
+export function composeK<A, B, C, D, E, F, G, H, I, J>(
+  ij: (i: I) => Maybe<J>,
+  hi: (h: H) => Maybe<I>,
+  gh: (g: G) => Maybe<H>,
+  fg: (f: F) => Maybe<G>,
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<J>;
+export function composeK<A, B, C, D, E, F, G, H, I, J, K>(
+  jk: (j: J) => Maybe<K>,
+  ij: (i: I) => Maybe<J>,
+  hi: (h: H) => Maybe<I>,
+  gh: (g: G) => Maybe<H>,
+  fg: (f: F) => Maybe<G>,
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<K>;
+export function composeK<A, B, C, D, E, F, G, H, I, J, K, L>(
+  kl: (k: K) => Maybe<L>,
+  jk: (j: J) => Maybe<K>,
+  ij: (i: I) => Maybe<J>,
+  hi: (h: H) => Maybe<I>,
+  gh: (g: G) => Maybe<H>,
+  fg: (f: F) => Maybe<G>,
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<L>;
+export function composeK<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+  lm: (l: L) => Maybe<M>,
+  kl: (k: K) => Maybe<L>,
+  jk: (j: J) => Maybe<K>,
+  ij: (i: I) => Maybe<J>,
+  hi: (h: H) => Maybe<I>,
+  gh: (g: G) => Maybe<H>,
+  fg: (f: F) => Maybe<G>,
+  ef: (e: E) => Maybe<F>,
+  de: (d: D) => Maybe<E>,
+  cd: (c: C) => Maybe<D>,
+  bc: (b: B) => Maybe<C>,
+  ab: (a: A) => Maybe<B>
+): (a: A) => Maybe<M>;
+export function composeK(
+  ...fns: ((x: unknown) => Maybe<unknown>)[]
+): (a: unknown) => Maybe<unknown> {
+  return chainAll([...fns].reverse());
+}
+
+function applyAll(a: unknown, fns: ((x: unknown) => unknown)[]): unknown {
+  return fns.reduce((acc, fn) => fn(acc), a);
+}
+
+function chainAll(
+  fns: ((x: unknown) => Maybe<unknown>)[]
+): (a: unknown) => Maybe<unknown> {
+  const [first, ...rest] = fns;
+  return (a) => rest.reduce((maybe, fn) => maybe.andThen(fn), first(a));
+}
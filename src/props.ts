@@ -0,0 +1,150 @@
+import { fromNullable } from "./functions";
+import Maybe, { nothing } from "./Maybe";
+
+/**
+ * The type found by following a path of keys and array indices into `T`, skipping over
+ * `null` and `undefined` at every step.
+ *
+ * @template T - The type being walked.
+ * @template P - The path, as a tuple of keys and indices.
+ *
+ * @example
+ * type Payload = { user?: { names: string[] } };
+ * type T = PathValue<Payload, ["user", "names", 0]>; // string
+ */
+export type PathValue<
+  T,
+  P extends readonly PropertyKey[],
+> = P extends readonly [infer K, ...infer Rest extends readonly PropertyKey[]]
+  ? K extends keyof NonNullable<T>
+    ? PathValue<NonNullable<T>[K], Rest>
+    : never
+  : NonNullable<T>;
+
+/**
+ * Checks a path against the type `T`. A valid path is returned unchanged; an invalid one
+ * becomes a tuple that no argument matches, so the compiler rejects the bad key.
+ *
+ * @template T - The type being walked.
+ * @template P - The path, as a tuple of keys and indices.
+ */
+export type ValidPath<
+  T,
+  P extends readonly PropertyKey[],
+> = P extends readonly [infer K, ...infer Rest extends readonly PropertyKey[]]
+  ? K extends keyof NonNullable<T>
+    ? readonly [K, ...ValidPath<NonNullable<T>[K], Rest>]
+    : readonly [keyof NonNullable<T>]
+  : readonly [];
+
+/**
+ * The shape an object must have for the path `P` to be followed into it. Each step may be
+ * `null` or `undefined`, and numeric steps expect something indexable by number, like an array.
+ *
+ * @template P - The path, as a tuple of keys and indices.
+ */
+export type PathSource<P extends readonly PropertyKey[]> = P extends readonly [
+  infer K extends PropertyKey,
+  ...infer Rest extends readonly PropertyKey[],
+]
+  ? K extends number
+    ? { readonly [index: number]: PathSource<Rest> | null | undefined }
+    : { readonly [k in K]?: PathSource<Rest> | null }
+  : unknown;
+
+/**
+ * Reads a property of an object into a `Maybe`, using `fromNullable`. A missing or `null`
+ * property gives `Nothing`. A numeric key into an array must be an index within its bounds.
+ *
+ * The key is checked against the object's type at compile time.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ * The curried form is handy with `andThen`.
+ *
+ * @template T - The type of the object.
+ * @template K - The type of the key.
+ * @param key - The key or array index to read.
+ * @param obj - (Optional) The object to read from. If omitted, the function returns a curried function expecting the object.
+ * @returns If `obj` is provided, returns a `Maybe` of the property's value.
+ *          If `obj` is not provided, returns a curried function that takes the object and returns that `Maybe`.
+ *
+ * @example
+ * // Using prop with both arguments
+ * prop("name", { name: "Ada" }); // just("Ada")
+ * prop("name", { name: null }); // nothing()
+ *
+ * @example
+ * // Using prop in its curried form
+ * findUser(id).andThen(prop("email")); // Maybe<string>
+ */
+export function prop<T, K extends keyof NonNullable<T>>(
+  key: K,
+  obj: T
+): Maybe<PathValue<T, [K]>>;
+export function prop<K extends PropertyKey>(
+  key: K
+): <T extends PathSource<[K]>>(obj: T) => Maybe<PathValue<T, [K]>>;
+export function prop(key: PropertyKey, ...rest: [unknown?]): unknown {
+  const doit = (obj: unknown) => walk(obj, [key]);
+  return rest.length === 0 ? doit : doit(rest[0]);
+}
+
+/**
+ * Follows a path of keys and array indices into an object, returning a `Maybe` of the value
+ * at the end. Each step goes through `fromNullable`, so a missing or `null` value anywhere
+ * along the path gives `Nothing`. Numeric steps into arrays must be indices within bounds.
+ *
+ * The path is checked against the object's type at compile time, and the type of the result
+ * is inferred from it.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ * The curried form is handy with `andThen`.
+ *
+ * @template T - The type of the object.
+ * @template P - The path, as a tuple of keys and indices.
+ * @param keys - The path to follow.
+ * @param obj - (Optional) The object to walk. If omitted, the function returns a curried function expecting the object.
+ * @returns If `obj` is provided, returns a `Maybe` of the value at the end of the path.
+ *          If `obj` is not provided, returns a curried function that takes the object and returns that `Maybe`.
+ *
+ * @example
+ * // Using path with both arguments
+ * const payload = { user: { addresses: [{ city: "Paris" }] } };
+ * path(["user", "addresses", 0, "city"], payload); // just("Paris")
+ * path(["user", "addresses", 1, "city"], payload); // nothing()
+ *
+ * @example
+ * // Using path in its curried form
+ * fetchPayload().andThen(path(["user", "addresses", 0, "city"])); // Maybe<string>
+ */
+export function path<T, const P extends readonly PropertyKey[]>(
+  keys: P & ValidPath<T, P>,
+  obj: T
+): Maybe<PathValue<T, P>>;
+export function path<const P extends readonly PropertyKey[]>(
+  keys: P
+): <T extends PathSource<P>>(obj: T) => Maybe<PathValue<T, P>>;
+export function path(
+  keys: readonly PropertyKey[],
+  ...rest: [unknown?]
+): unknown {
+  const doit = (obj: unknown) => walk(obj, keys);
+  return rest.length === 0 ? doit : doit(rest[0]);
+}
+
+function walk(obj: unknown, keys: readonly PropertyKey[]): Maybe<unknown> {
+  let current: Maybe<unknown> = fromNullable(obj);
+  for (const key of keys) {
+    current = current.andThen((value) => step(value, key));
+  }
+  return current;
+}
+
+function step(value: unknown, key: PropertyKey): Maybe<unknown> {
+  if (Array.isArray(value) && typeof key === "number") {
+    return Number.isInteger(key) && key >= 0 && key < value.length
+      ? fromNullable(value[key])
+      : nothing();
+  }
+  return fromNullable((value as Record<PropertyKey, unknown>)[key]);
+}
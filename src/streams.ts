@@ -0,0 +1,191 @@
+import AsyncMaybe, { MaybeLike } from "./AsyncMaybe";
+import Maybe, { just, propagate } from "./Maybe";
+
+/**
+ * A source of values that can be consumed with `for await`: an async iterable, such as an
+ * async generator or a `ReadableStream`, or a plain iterable.
+ *
+ * @template T - The type of the values.
+ */
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
+/**
+ * Collects the values of all the `Just`s in an async iterable, dropping the `Nothing`s.
+ *
+ * This is the streaming counterpart of `catMaybes`. Values are yielded as they arrive,
+ * without buffering.
+ *
+ * @template T - The type of the value contained within the `Maybe` instances.
+ * @param source - An async iterable of `Maybe<T>`.
+ * @returns An async iterable of the values of the `Just`s, in order.
+ *
+ * @example
+ * for await (const event of compactAsync(parsedMessages)) {
+ *   handle(event);
+ * }
+ */
+export async function* compactAsync<T>(
+  source: AnyIterable<Maybe<T>>
+): AsyncGenerator<T, void, undefined> {
+  for await (const maybe of source) {
+    if (maybe.isJust()) {
+      yield maybe.value;
+    }
+  }
+}
+
+/**
+ * Applies a function that returns a `Maybe` to each value of an async iterable, yielding the
+ * values of the `Just`s and dropping the `Nothing`s.
+ *
+ * This is the streaming counterpart of `mapMaybe`. The function may be asynchronous; each
+ * result is awaited before the next value is read.
+ *
+ * This function is curried, meaning it can be called with either one or two arguments.
+ *
+ * @template T - The type of the values in the source.
+ * @template U - The type of the value contained within the `Maybe` instances returned by the mapping function.
+ * @param fn - The function to apply to each value. It may return a `Maybe`, `Promise<Maybe>` or `AsyncMaybe`.
+ * @param source - (Optional) The async iterable to map. If omitted, the function returns a curried function expecting one.
+ * @returns If `source` is provided, returns an async iterable of the values of the `Just`s returned by `fn`.
+ *          If `source` is not provided, returns a curried function that takes an async iterable of `T`.
+ *
+ * @example
+ * // Using mapMaybeAsync with both arguments
+ * const events = mapMaybeAsync((line: string) => parseJSON(line), lines);
+ *
+ * @example
+ * // Using mapMaybeAsync in its curried form
+ * const parseLines = mapMaybeAsync((line: string) => parseJSON(line));
+ * const events = parseLines(lines);
+ */
+export function mapMaybeAsync<T, U>(
+  fn: (value: T) => MaybeLike<U>
+): (source: AnyIterable<T>) => AsyncGenerator<U, void, undefined>;
+export function mapMaybeAsync<T, U>(
+  fn: (value: T) => MaybeLike<U>,
+  source: AnyIterable<T>
+): AsyncGenerator<U, void, undefined>;
+export function mapMaybeAsync<T, U>(
+  fn: (value: T) => MaybeLike<U>,
+  source?: AnyIterable<T>
+) {
+  const doit = async function* (source: AnyIterable<T>) {
+    for await (const value of source) {
+      const maybe = await fn(value);
+      if (maybe.isJust()) {
+        yield maybe.value;
+      }
+    }
+  };
+  return typeof source === "undefined" ? doit : doit(source);
+}
+
+/**
+ * Yields the values of the `Just`s in an async iterable, stopping at the first `Nothing`.
+ *
+ * The source is closed when the first `Nothing` is reached, so nothing after it is read.
+ *
+ * @template T - The type of the value contained within the `Maybe` instances.
+ * @param source - An async iterable of `Maybe<T>`.
+ * @returns An async iterable of the values before the first `Nothing`.
+ *
+ * @example
+ * // Read records until the first one that fails to parse
+ * for await (const record of takeWhileJust(parsedRecords)) {
+ *   save(record);
+ * }
+ */
+export async function* takeWhileJust<T>(
+  source: AnyIterable<Maybe<T>>
+): AsyncGenerator<T, void, undefined> {
+  for await (const maybe of source) {
+    if (!maybe.isJust()) {
+      return;
+    }
+    yield maybe.value;
+  }
+}
+
+/**
+ * Collects an async iterable of `Maybe` values into a single `Maybe` of an array.
+ *
+ * This is the streaming counterpart of `sequence`: the result is `Just` of all the values if
+ * every element is a `Just`, or `Nothing` as soon as a `Nothing` is read. The source is
+ * closed at that point, so nothing after it is read.
+ *
+ * @template T - The type of the value contained within the `Maybe` instances.
+ * @param source - An async iterable of `Maybe<T>`.
+ * @returns An `AsyncMaybe<T[]>`.
+ *
+ * @example
+ * const rows: Maybe<Row[]> = await sequenceAsyncIterable(mapAsyncRows(parseRow));
+ */
+export function sequenceAsyncIterable<T>(
+  source: AnyIterable<Maybe<T>>
+): AsyncMaybe<T[]> {
+  return new AsyncMaybe(
+    (async (): Promise<Maybe<T[]>> => {
+      const result: T[] = [];
+      for await (const maybe of source) {
+        if (!maybe.isJust()) {
+          return propagate(maybe);
+        }
+        result.push(maybe.value);
+      }
+      return just(result);
+    })()
+  );
+}
+
+/**
+ * Creates a `TransformStream` that applies a function returning a `Maybe` to each chunk,
+ * passing on the values of the `Just`s and dropping the `Nothing`s.
+ *
+ * This is `mapMaybeAsync` for Web Streams, for use with `pipeThrough`.
+ *
+ * @template T - The type of the chunks written to the stream.
+ * @template U - The type of the chunks read from the stream.
+ * @param fn - The function to apply to each chunk. It may return a `Maybe`, `Promise<Maybe>` or `AsyncMaybe`.
+ * @returns A new `TransformStream<T, U>`.
+ *
+ * @example
+ * const events = response.body
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(splitLines())
+ *   .pipeThrough(mapMaybeStream((line: string) => parseJSON(line)));
+ */
+export function mapMaybeStream<T, U>(
+  fn: (chunk: T) => MaybeLike<U>
+): TransformStream<T, U> {
+  return new TransformStream<T, U>({
+    async transform(chunk, controller) {
+      const maybe = await fn(chunk);
+      if (maybe.isJust()) {
+        controller.enqueue(maybe.value);
+      }
+    },
+  });
+}
+
+/**
+ * Creates a `TransformStream` that passes on the values of the `Just`s written to it and
+ * drops the `Nothing`s.
+ *
+ * This is `compactAsync` for Web Streams, for use with `pipeThrough`.
+ *
+ * @template T - The type of the value contained within the `Maybe` chunks.
+ * @returns A new `TransformStream<Maybe<T>, T>`.
+ *
+ * @example
+ * const values = maybes.pipeThrough(catMaybesStream<number>());
+ */
+export function catMaybesStream<T>(): TransformStream<Maybe<T>, T> {
+  return new TransformStream<Maybe<T>, T>({
+    transform(maybe, controller) {
+      if (maybe.isJust()) {
+        controller.enqueue(maybe.value);
+      }
+    },
+  });
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "bun:test";
+import {
+  concat,
+  firstJust,
+  getFirstMonoid,
+  getLastMonoid,
+  oneOf,
+  or,
+  xor,
+} from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+describe("Maybe.or", () => {
+  it("should return the first Just", () => {
+    expect(just(5).or(just(10))).toEqual(just(5));
+    expect(nothing<number>().or(just(10))).toEqual(just(10));
+    expect(nothing<number>().or(nothing()).isNothing()).toBe(true);
+  });
+
+  it("should work in curried form", () => {
+    expect(or(just(10))(nothing())).toEqual(just(10));
+    expect(or(just(10), just(5))).toEqual(just(5));
+  });
+});
+
+describe("Maybe.xor", () => {
+  it("should return the Just only if exactly one is a Just", () => {
+    expect(just(5).xor(nothing())).toEqual(just(5));
+    expect(nothing<number>().xor(just(10))).toEqual(just(10));
+    expect(just(5).xor(just(10)).isNothing()).toBe(true);
+    expect(nothing<number>().xor(nothing()).isNothing()).toBe(true);
+  });
+
+  it("should work in curried form", () => {
+    expect(xor(just(10))(nothing())).toEqual(just(10));
+    expect(xor(just(10), just(5)).isNothing()).toBe(true);
+  });
+});
+
+describe("firstJust", () => {
+  it("should return the first Just", () => {
+    expect(firstJust([nothing(), just(2), just(3)])).toEqual(just(2));
+    expect(firstJust<number>([nothing(), nothing()]).isNothing()).toBe(true);
+    expect(firstJust([]).isNothing()).toBe(true);
+  });
+});
+
+describe("oneOf", () => {
+  it("should stop calling thunks at the first Just", () => {
+    const called: number[] = [];
+    const candidate = (n: number, result: Maybe<number>) => () => {
+      called.push(n);
+      return result;
+    };
+    const result = oneOf([
+      candidate(1, nothing()),
+      candidate(2, just(2)),
+      candidate(3, just(3)),
+    ]);
+    expect(result).toEqual(just(2));
+    expect(called).toEqual([1, 2]);
+  });
+
+  it("should be Nothing if no thunk produces a Just", () => {
+    expect(oneOf<number>([() => nothing()]).isNothing()).toBe(true);
+  });
+});
+
+describe("concat", () => {
+  const add = concat<number>({ concat: (a, b) => a + b });
+
+  it("should combine two Justs with the semigroup", () => {
+    expect(add(just(1), just(2))).toEqual(just(3));
+  });
+
+  it("should treat Nothing as the identity", () => {
+    expect(add(just(1), nothing())).toEqual(just(1));
+    expect(add(nothing(), just(2))).toEqual(just(2));
+    expect(add(nothing(), nothing()).isNothing()).toBe(true);
+  });
+
+  it("should fold an array", () => {
+    const maybes = [just(1), nothing<number>(), just(4)];
+    expect(maybes.reduce(add, nothing())).toEqual(just(5));
+  });
+});
+
+describe("getFirstMonoid and getLastMonoid", () => {
+  const maybes = [nothing<number>(), just(1), nothing<number>(), just(2)];
+
+  it("should keep the first Just", () => {
+    const First = getFirstMonoid<number>();
+    expect(maybes.reduce(First.concat, First.empty)).toEqual(just(1));
+  });
+
+  it("should keep the last Just", () => {
+    const Last = getLastMonoid<number>();
+    expect(maybes.reduce(Last.concat, Last.empty)).toEqual(just(2));
+  });
+
+  it("should fold an empty array to Nothing", () => {
+    const First = getFirstMonoid<number>();
+    expect([].reduce(First.concat, First.empty).isNothing()).toBe(true);
+  });
+});
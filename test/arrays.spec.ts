@@ -0,0 +1,93 @@
+import { describe, it, expect } from "bun:test";
+import {
+  catMaybes,
+  filterMap,
+  listToMaybe,
+  mapMaybe,
+  partitionMaybes,
+  toArray,
+} from "../src/arrays";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+const parse = (s: string): Maybe<number> =>
+  isNaN(Number(s)) ? nothing() : just(Number(s));
+
+describe("arrays", () => {
+  describe("catMaybes", () => {
+    it("should keep the values of the Justs", () => {
+      expect(catMaybes([just(1), nothing(), just(3)])).toEqual([1, 3]);
+      expect(catMaybes([just(null), nothing()])).toEqual([null]);
+      expect(catMaybes<number>([])).toEqual([]);
+    });
+  });
+
+  describe("mapMaybe", () => {
+    it("should map and drop the Nothings", () => {
+      expect(mapMaybe(parse, ["1", "two", "3"])).toEqual([1, 3]);
+    });
+
+    it("should work in curried form", () => {
+      const parseAll = mapMaybe(parse);
+      expect(parseAll(["x", "2"])).toEqual([2]);
+      expect(filterMap(parse)(["4"])).toEqual([4]);
+    });
+  });
+
+  describe("partitionMaybes", () => {
+    it("should split the inputs by whether fn returned a Just", () => {
+      const [numbers, rejected] = partitionMaybes(parse, ["1", "two", "3"]);
+      expect(numbers).toEqual([1, 3]);
+      expect(rejected).toEqual(["two"]);
+    });
+
+    it("should work in curried form", () => {
+      const split = partitionMaybes(parse);
+      expect(split(["a", "b"])).toEqual([[], ["a", "b"]]);
+    });
+  });
+
+  describe("toArray and listToMaybe", () => {
+    it("should convert a Maybe into an array", () => {
+      expect(toArray(just(5))).toEqual([5]);
+      expect(toArray(nothing())).toEqual([]);
+    });
+
+    it("should take the first element of an array", () => {
+      expect(listToMaybe([1, 2]).state).toBe(1);
+      expect(listToMaybe([]).isNothing()).toBe(true);
+      expect(listToMaybe([undefined]).isJust()).toBe(true);
+    });
+  });
+});
+
+describe("Maybe iteration", () => {
+  it("should iterate over zero or one value", () => {
+    expect([...just(5).values()]).toEqual([5]);
+    expect([...nothing<number>().values()]).toEqual([]);
+
+    const seen: number[] = [];
+    for (const x of just(1).values()) {
+      seen.push(x);
+    }
+    expect(seen).toEqual([1]);
+  });
+
+  it("should be iterable itself", () => {
+    expect([...just(5)]).toEqual([5]);
+    expect([...nothing<number>()]).toEqual([]);
+
+    const seen: number[] = [];
+    for (const x of just(1)) {
+      seen.push(x);
+    }
+    for (const x of nothing<number>()) {
+      seen.push(x);
+    }
+    expect(seen).toEqual([1]);
+  });
+
+  it("should convert to an array", () => {
+    expect(just("a").toArray()).toEqual(["a"]);
+    expect(nothing().toArray()).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "bun:test";
+import AsyncMaybe from "../src/AsyncMaybe";
+import {
+  andThenAsync,
+  cataAsync,
+  filterAsync,
+  getOrElseAsync,
+  mapAsync,
+  orElseAsync,
+} from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+const lookup = async (n: number): Promise<Maybe<string>> =>
+  n > 0 ? just(`#${n}`) : nothing();
+
+describe("AsyncMaybe", () => {
+  it("should be awaitable as a plain Maybe", async () => {
+    const result = await AsyncMaybe.just(5);
+    expect(result).toBeInstanceOf(Maybe);
+    expect(result.state).toBe(5);
+  });
+
+  it("should wrap a promise of a Maybe", async () => {
+    const result = await AsyncMaybe.from(lookup(1));
+    expect(result.state).toBe("#1");
+  });
+
+  describe("map", () => {
+    it("should map sync and async functions", async () => {
+      const result = await AsyncMaybe.just(5)
+        .map((x) => x + 1)
+        .map(async (x) => x * 2);
+      expect(result.state).toBe(12);
+    });
+
+    it("should not call the function if it is a Nothing", async () => {
+      let called = false;
+      const result = await AsyncMaybe.nothing<number>().map((x) => {
+        called = true;
+        return x;
+      });
+      expect(result.isNothing()).toBe(true);
+      expect(called).toBe(false);
+    });
+  });
+
+  describe("andThen", () => {
+    it("should accept functions returning Maybe, Promise<Maybe> or AsyncMaybe", async () => {
+      const result = await AsyncMaybe.just(1)
+        .andThen((x) => just(x + 1))
+        .andThen((x) => lookup(x))
+        .andThen((s) => AsyncMaybe.just(s.length));
+      expect(result.state).toBe(2);
+    });
+
+    it("should short-circuit on Nothing", async () => {
+      const result = await AsyncMaybe.just(0)
+        .andThen(lookup)
+        .andThen(() => just("unreachable"));
+      expect(result.isNothing()).toBe(true);
+    });
+  });
+
+  describe("orElse", () => {
+    it("should keep a Just", async () => {
+      const result = await AsyncMaybe.just(5).orElse(() => just(10));
+      expect(result.state).toBe(5);
+    });
+
+    it("should use the fallback for a Nothing", async () => {
+      const result = await AsyncMaybe.nothing<string>().orElse(() => lookup(3));
+      expect(result.state).toBe("#3");
+    });
+  });
+
+  describe("filter", () => {
+    it("should support async predicates", async () => {
+      const kept = await AsyncMaybe.just(5).filter(async (x) => x > 3);
+      const dropped = await AsyncMaybe.just(5).filter(async (x) => x > 10);
+      expect(kept.state).toBe(5);
+      expect(dropped.isNothing()).toBe(true);
+    });
+  });
+
+  describe("assign", () => {
+    it("should build up an object from async values", async () => {
+      const result = await AsyncMaybe.just({})
+        .assign("a", lookup(1))
+        .assign("b", (scope) => just(scope.a.length));
+      expect(result.state).toEqual({ a: "#1", b: 2 });
+    });
+
+    it("should return Nothing if any value is Nothing", async () => {
+      const result = await AsyncMaybe.just({})
+        .assign("a", lookup(1))
+        .assign("b", lookup(0));
+      expect(result.isNothing()).toBe(true);
+    });
+
+    it("should not call other when the value is not an object", async () => {
+      let called = false;
+      const result = await AsyncMaybe.just<unknown>(5).assign("a", () => {
+        called = true;
+        return just(1);
+      });
+      expect(result.isNothing()).toBe(true);
+      expect(called).toBe(false);
+    });
+  });
+
+  describe("do and elseDo", () => {
+    it("should run side effects on the matching branch", async () => {
+      const calls: string[] = [];
+      await AsyncMaybe.just(5)
+        .do(async (x) => {
+          calls.push(`do ${x}`);
+        })
+        .elseDo(() => {
+          calls.push("elseDo just");
+        });
+      await AsyncMaybe.nothing<number>()
+        .do(() => {
+          calls.push("do nothing");
+        })
+        .elseDo(() => {
+          calls.push("elseDo nothing");
+        });
+      expect(calls).toEqual(["do 5", "elseDo nothing"]);
+    });
+  });
+
+  describe("cata and getOrElse", () => {
+    it("should resolve to the matching branch", async () => {
+      const matcher = {
+        Just: (x: number) => `value ${x}`,
+        Nothing: async () => "none",
+      };
+      expect(await AsyncMaybe.just(5).cata(matcher)).toBe("value 5");
+      expect(await AsyncMaybe.nothing<number>().cata(matcher)).toBe("none");
+    });
+
+    it("should resolve to the value or the default", async () => {
+      expect(await AsyncMaybe.just(5).getOrElse(() => 10)).toBe(5);
+      expect(await AsyncMaybe.nothing<number>().getOrElse(async () => 10)).toBe(
+        10
+      );
+      expect(await AsyncMaybe.nothing<number>().getOrElseValue(10)).toBe(10);
+    });
+  });
+
+  describe("async iteration", () => {
+    it("should yield the eventual value of a Just only", async () => {
+      const seen: number[] = [];
+      for await (const x of AsyncMaybe.just(1)) {
+        seen.push(x);
+      }
+      for await (const x of AsyncMaybe.nothing<number>()) {
+        seen.push(x);
+      }
+      expect(seen).toEqual([1]);
+    });
+  });
+});
+
+describe("async functions", () => {
+  it("should compose in curried form", async () => {
+    const double = mapAsync((x: number) => x * 2);
+    const describe = andThenAsync((x: number) => lookup(x));
+    const result = await describe(double(Promise.resolve(just(2))));
+    expect(result.state).toBe("#4");
+  });
+
+  it("should work with both arguments", async () => {
+    const result = await filterAsync(
+      async (s: string) => s.length > 5,
+      lookup(1)
+    );
+    expect(result.isNothing()).toBe(true);
+
+    const fallback = await orElseAsync(() => lookup(7), lookup(0));
+    expect(fallback.state).toBe("#7");
+  });
+
+  it("should unwrap in curried form", async () => {
+    const orDefault = getOrElseAsync(() => "none");
+    expect(await orDefault(lookup(0))).toBe("none");
+
+    const render = cataAsync({
+      Just: (s: string) => s.toUpperCase(),
+      Nothing: () => "NONE",
+    });
+    expect(await render(AsyncMaybe.from(lookup(2)))).toBe("#2");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { inspect } from "util";
+import {
+  DevtoolsFormatter,
+  installDevtoolsFormatter,
+  maybeFormatter,
+} from "../src/devtools";
+import { just, nothing } from "../src/Maybe";
+
+describe("Maybe.toString", () => {
+  it("should show Just and Nothing", () => {
+    expect(just(5).toString()).toBe("Just(5)");
+    expect(nothing().toString()).toBe("Nothing");
+    expect(String(just(null))).toBe("Just(null)");
+  });
+
+  it("should show nested values", () => {
+    expect(just(just("a")).toString()).toBe('Just(Just("a"))');
+    expect(just([1, nothing(), { a: just(2n) }]).toString()).toBe(
+      "Just([1, Nothing, { a: Just(2n) }])"
+    );
+  });
+
+  it("should not loop on circular values", () => {
+    const cyclic: { self?: unknown } = {};
+    cyclic.self = cyclic;
+    expect(just(cyclic).toString()).toBe("Just({ self: [Circular] })");
+  });
+});
+
+describe("Maybe toStringTag", () => {
+  it("should tag Maybes", () => {
+    expect(Object.prototype.toString.call(just(1))).toBe("[object Maybe]");
+    expect(Object.prototype.toString.call(nothing())).toBe("[object Maybe]");
+  });
+});
+
+describe("Maybe inspect", () => {
+  it("should format Maybes", () => {
+    expect(inspect(just(5))).toBe("Just(5)");
+    expect(inspect(nothing())).toBe("Nothing");
+    expect(inspect(just("a"))).toBe("Just('a')");
+  });
+
+  it("should format Maybes nested in objects, arrays and Maybes", () => {
+    expect(inspect({ user: just({ name: "Ada" }) })).toBe(
+      "{ user: Just({ name: 'Ada' }) }"
+    );
+    expect(inspect([just(1), nothing()])).toBe("[ Just(1), Nothing ]");
+    expect(inspect(just(just(1)))).toBe("Just(Just(1))");
+  });
+
+  it("should respect the depth option", () => {
+    expect(inspect(just(just(just(1))), { depth: 0 })).toBe("Just([Just])");
+    expect(inspect(just({ a: { b: 1 } }), { depth: 0 })).toBe("Just([Object])");
+  });
+});
+
+describe("maybeFormatter", () => {
+  const global = globalThis as { devtoolsFormatters?: DevtoolsFormatter[] };
+
+  afterEach(() => {
+    delete global.devtoolsFormatters;
+  });
+
+  it("should format Maybes as JsonML", () => {
+    const value = { a: 1 };
+    expect(maybeFormatter.header(just(value))).toEqual([
+      "span",
+      {},
+      "Just(",
+      ["object", { object: value }],
+      ")",
+    ]);
+    expect(maybeFormatter.header(nothing())).toEqual([
+      "span",
+      { style: "color: #888" },
+      "Nothing",
+    ]);
+  });
+
+  it("should ignore anything else", () => {
+    expect(maybeFormatter.header({ a: 1 })).toBeNull();
+  });
+
+  it("should install once", () => {
+    installDevtoolsFormatter();
+    installDevtoolsFormatter();
+    expect(global.devtoolsFormatters).toEqual([maybeFormatter]);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "bun:test";
+import {
+  array,
+  boolean,
+  DecoderOutput,
+  literal,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string,
+} from "../src/decoders";
+import { traverse } from "../src/functions";
+import Maybe, { just } from "../src/Maybe";
+import { parseJSON } from "../src/parse";
+
+const user = object({
+  name: string,
+  age: nullable(number),
+  role: literal("admin", "member"),
+  email: optional(string),
+  tags: array(string),
+});
+
+type User = DecoderOutput<typeof user>;
+
+describe("primitive decoders", () => {
+  it("should accept values of the right type", () => {
+    expect(string("a").getOrElseValue("")).toBe("a");
+    expect(number(1).getOrElseValue(0)).toBe(1);
+    expect(boolean(false).getOrElseValue(true)).toBe(false);
+  });
+
+  it("should reject values of the wrong type", () => {
+    expect(string(1).isNothing()).toBe(true);
+    expect(number("1").isNothing()).toBe(true);
+    expect(number(NaN).isNothing()).toBe(true);
+    expect(boolean(null).isNothing()).toBe(true);
+  });
+});
+
+describe("literal", () => {
+  it("should accept only the given values", () => {
+    const role = literal("admin", "member");
+    const decoded: Maybe<"admin" | "member"> = role("admin");
+    expect(decoded.getOrElseValue("member")).toBe("admin");
+    expect(role("guest").isNothing()).toBe(true);
+    expect(literal(null)(null).isJust()).toBe(true);
+  });
+});
+
+describe("array", () => {
+  it("should decode every element", () => {
+    expect(array(number)([1, 2]).getOrElseValue([])).toEqual([1, 2]);
+    expect(array(number)([1, "2"]).isNothing()).toBe(true);
+    expect(array(number)({ length: 0 }).isNothing()).toBe(true);
+  });
+});
+
+describe("object", () => {
+  it("should decode each property and infer the output type", () => {
+    const input = {
+      name: "Ada",
+      age: null,
+      role: "admin",
+      tags: ["x"],
+      extra: true,
+    };
+    const decoded: Maybe<User> = user(input);
+    expect(decoded.getOrNull()).toEqual({
+      name: "Ada",
+      age: null,
+      role: "admin",
+      tags: ["x"],
+    });
+
+    const typed: User = { name: "a", age: 1, role: "member", tags: [] };
+    expect(typed.email).toBeUndefined();
+  });
+
+  it("should fail if any property fails", () => {
+    expect(
+      user({ name: "Ada", age: "1", role: "admin", tags: [] }).isNothing()
+    ).toBe(true);
+    expect(user({ name: "Ada", role: "admin", tags: [] }).isNothing()).toBe(
+      true
+    );
+    expect(user(null).isNothing()).toBe(true);
+    expect(user([]).isNothing()).toBe(true);
+  });
+
+  it("should decode optional properties when present", () => {
+    const decoded = user({
+      name: "Ada",
+      age: 36,
+      role: "member",
+      email: "ada@example.com",
+      tags: [],
+    });
+    expect(decoded.map((u) => u.email).getOrElseValue("")).toBe(
+      "ada@example.com"
+    );
+    expect(
+      user({
+        name: "Ada",
+        age: 36,
+        role: "member",
+        email: 1,
+        tags: [],
+      }).isNothing()
+    ).toBe(true);
+  });
+
+  it("should only read own properties", () => {
+    const named = object({ toString: optional(string) });
+    expect(named({}).map(Object.keys)).toEqual(just([]));
+    expect(named({ toString: "x" })).toEqual(just({ toString: "x" }));
+    expect(object({ constructor: string })({}).isNothing()).toBe(true);
+  });
+
+  it("should keep a __proto__ key as data", () => {
+    const decoded = object({ ["__proto__"]: string })(
+      JSON.parse('{"__proto__":"x"}')
+    );
+    expect(decoded.isJust()).toBe(true);
+    const value = decoded.getOrElseValue({ ["__proto__"]: "" });
+    expect(Object.getOwnPropertyDescriptor(value, "__proto__")?.value).toBe(
+      "x"
+    );
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+  });
+});
+
+describe("oneOf", () => {
+  it("should use the first decoder that succeeds", () => {
+    const id = oneOf(string, number);
+    const decoded: Maybe<string | number> = id(1);
+    expect(decoded.getOrElseValue("")).toBe(1);
+    expect(id(true).isNothing()).toBe(true);
+  });
+});
+
+describe("refine", () => {
+  it("should reject values failing the predicate", () => {
+    const positive = refine((n: number) => n > 0, number);
+    expect(positive(1).isJust()).toBe(true);
+    expect(positive(-1).isNothing()).toBe(true);
+
+    const nonEmpty = refine((s: string) => s.length > 0);
+    expect(nonEmpty(string)("").isNothing()).toBe(true);
+  });
+
+  it("should narrow with a type guard", () => {
+    const isYes = (s: string): s is "yes" => s === "yes";
+    const yes: Maybe<"yes"> = refine(isYes, string)("yes");
+    expect(yes.isJust()).toBe(true);
+  });
+});
+
+describe("decoders with andThen and traverse", () => {
+  it("should compose with parseJSON and andThen", () => {
+    const decoded = parseJSON(
+      '{"name":"Ada","age":36,"role":"admin","tags":[]}'
+    ).andThen(user);
+    expect(decoded.map((u) => u.name).getOrElseValue("")).toBe("Ada");
+  });
+
+  it("should compose with traverse", () => {
+    expect(traverse(number, [1, 2]).getOrElseValue([])).toEqual([1, 2]);
+    expect(just<unknown>("a").andThen(string).isJust()).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "bun:test";
+import {
+  compare,
+  contains,
+  equals,
+  getEq,
+  getOrd,
+  hashKey,
+} from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+describe("Maybe.equals", () => {
+  it("should compare contained values with Object.is", () => {
+    expect(just(5).equals(just(5))).toBe(true);
+    expect(just(5).equals(just(6))).toBe(false);
+    expect(just(NaN).equals(just(NaN))).toBe(true);
+    expect(just({}).equals(just({}))).toBe(false);
+  });
+
+  it("should treat Nothing as equal only to Nothing", () => {
+    expect(nothing().equals(nothing())).toBe(true);
+    expect(just(5).equals(nothing())).toBe(false);
+    expect(nothing<number>().equals(just(5))).toBe(false);
+  });
+
+  it("should accept a custom equality", () => {
+    const byId = (a: { id: number }, b: { id: number }) => a.id === b.id;
+    expect(just({ id: 1 }).equals(just({ id: 1 }), byId)).toBe(true);
+    expect(just({ id: 1 }).equals(just({ id: 2 }), byId)).toBe(false);
+  });
+});
+
+describe("Maybe.compare", () => {
+  it("should order Justs by their values", () => {
+    expect(just(1).compare(just(2))).toBeLessThan(0);
+    expect(just(2).compare(just(1))).toBeGreaterThan(0);
+    expect(just("a").compare(just("a"))).toBe(0);
+  });
+
+  it("should order bigints, booleans and dates", () => {
+    expect(just(1n).compare(just(2n))).toBeLessThan(0);
+    expect(just(true).compare(just(false))).toBeGreaterThan(0);
+    expect(just(new Date(0)).compare(just(new Date(0)))).toBe(0);
+    expect(just(new Date(0)).compare(just(new Date(1)))).toBeLessThan(0);
+  });
+
+  it("should sort Nothing first by default", () => {
+    expect(nothing<number>().compare(just(1))).toBe(-1);
+    expect(just(1).compare(nothing())).toBe(1);
+    expect(nothing().compare(nothing())).toBe(0);
+  });
+
+  it("should sort Nothing last when configured", () => {
+    expect(nothing<number>().compare(just(1), undefined, "last")).toBe(1);
+    expect(just(1).compare(nothing(), undefined, "last")).toBe(-1);
+  });
+
+  it("should accept a custom ordering", () => {
+    const descending = (a: number, b: number) => b - a;
+    expect(just(1).compare(just(2), descending)).toBeGreaterThan(0);
+  });
+});
+
+describe("Maybe.contains", () => {
+  it("should check the contained value", () => {
+    expect(just(5).contains(5)).toBe(true);
+    expect(just(5).contains(6)).toBe(false);
+    expect(nothing<number>().contains(5)).toBe(false);
+  });
+});
+
+describe("Maybe.hashKey", () => {
+  it("should distinguish Nothing and values of different types", () => {
+    expect(nothing().hashKey()).toBe("Nothing");
+    expect(just(1).hashKey()).not.toBe(just("1").hashKey());
+    expect(just(0).hashKey()).not.toBe(just(-0).hashKey());
+  });
+
+  it("should be structural and stable", () => {
+    expect(just({ b: [1, 2], a: "x" }).hashKey()).toBe(
+      just({ a: "x", b: [1, 2] }).hashKey()
+    );
+    expect(just(just(5)).hashKey()).toBe(just(just(5)).hashKey());
+    expect(just(just(5)).hashKey()).not.toBe(just(5).hashKey());
+  });
+
+  it("should encode Maps and Sets by their entries", () => {
+    expect(just(new Set([1])).hashKey()).not.toBe(just(new Set([2])).hashKey());
+    expect(just(new Set([1, 2])).hashKey()).toBe(
+      just(new Set([2, 1])).hashKey()
+    );
+    expect(just(new Map([["a", 1]])).hashKey()).not.toBe(
+      just(new Map([["a", 2]])).hashKey()
+    );
+    expect(just(new Map()).hashKey()).not.toBe(just({}).hashKey());
+  });
+
+  it("should encode class instances by identity", () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    const p = new Point(1);
+    expect(just(p).hashKey()).toBe(just(p).hashKey());
+    expect(just(p).hashKey()).not.toBe(just(new Point(1)).hashKey());
+    expect(just(p).hashKey()).not.toBe(just({ x: 1 }).hashKey());
+  });
+
+  it("should encode symbols", () => {
+    const a = Symbol("a");
+    expect(just(a).hashKey()).toBe(just(a).hashKey());
+    expect(just(a).hashKey()).not.toBe(just(Symbol("a")).hashKey());
+    expect(just(Symbol.for("a")).hashKey()).toBe(
+      just(Symbol.for("a")).hashKey()
+    );
+  });
+
+  it("should handle cycles", () => {
+    const a: { self?: unknown } = {};
+    a.self = a;
+    const b: { items: unknown[] } = { items: [] };
+    b.items.push(b);
+    expect(just(a).hashKey()).toBe('Just({"self":circular:1})');
+    expect(just(b).hashKey()).not.toBe(just(a).hashKey());
+  });
+
+  it("should dedupe an array of Maybes", () => {
+    const maybes = [just(1), nothing<number>(), just(1), just(2), nothing()];
+    const unique = [...new Map(maybes.map((m) => [hashKey(m), m])).values()];
+    expect(unique.map((m) => m.state)).toEqual([1, null, 2]);
+  });
+});
+
+describe("comparison functions", () => {
+  it("should compare in curried form", () => {
+    const isFive = equals(just(5));
+    expect(isFive(just(5))).toBe(true);
+    expect(equals(nothing(), nothing())).toBe(true);
+    expect(compare(just(2), just(1))).toBe(-1);
+    expect(compare(just(2))(nothing())).toBe(-1);
+    expect(contains(5)(just(5))).toBe(true);
+    expect(contains(5, nothing())).toBe(false);
+  });
+
+  it("should accept a custom equality and ordering", () => {
+    const byId = (a: { id: number }, b: { id: number }) => a.id === b.id;
+    expect(equals(just({ id: 1 }), byId, just({ id: 1 }))).toBe(true);
+    expect(equals(just({ id: 1 }), byId)(just({ id: 2 }))).toBe(false);
+    expect(contains({ id: 1 }, byId, just({ id: 1 }))).toBe(true);
+    expect(contains({ id: 1 }, byId)(nothing())).toBe(false);
+
+    const descending = (a: number, b: number) => b - a;
+    expect(compare(just(1), descending, just(2))).toBeLessThan(0);
+    expect(compare(just(1), descending)(just(2))).toBeLessThan(0);
+    expect(compare(just(1), undefined, "last", nothing())).toBe(1);
+    expect(compare(just(1), undefined, "last")(nothing())).toBe(1);
+  });
+
+  it("should lift equality and ordering", () => {
+    const eqById = getEq(
+      (a: { id: number }, b: { id: number }) => a.id === b.id
+    );
+    expect(eqById(just({ id: 1 }), just({ id: 1 }))).toBe(true);
+
+    const maybes: Maybe<number>[] = [just(3), nothing(), just(1)];
+    expect([...maybes].sort(getOrd()).map((m) => m.state)).toEqual([
+      null,
+      1,
+      3,
+    ]);
+    expect(
+      [...maybes].sort(getOrd(undefined, "last")).map((m) => m.state)
+    ).toEqual([1, 3, null]);
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, it, expect } from "bun:test";
+import Maybe, { just, nothing } from "../src/Maybe";
+import MaybeStatic from "../src/MaybeStatic";
+
+const FL = {
+  equals: "fantasy-land/equals",
+  map: "fantasy-land/map",
+  ap: "fantasy-land/ap",
+  of: "fantasy-land/of",
+  chain: "fantasy-land/chain",
+  alt: "fantasy-land/alt",
+  zero: "fantasy-land/zero",
+  reduce: "fantasy-land/reduce",
+  traverse: "fantasy-land/traverse",
+  filter: "fantasy-land/filter",
+} as const;
+
+const values: Maybe<number>[] = [just(1), just(5), nothing()];
+const f = (x: number) => x + 1;
+const g = (x: number) => x * 2;
+const p = (x: number) => x > 2;
+const q = (x: number) => x < 4;
+const k = (x: number): Maybe<number> => (x > 3 ? just(x - 3) : nothing());
+const h = (x: number): Maybe<number> => (x % 2 === 1 ? just(x * 3) : nothing());
+
+const eq = <A>(a: Maybe<A>, b: Maybe<A>) => expect(a[FL.equals](b)).toBe(true);
+
+/**
+ * A minimal applicative used to exercise the Traversable laws.
+ */
+class Identity<A> {
+  constructor(readonly value: A) {}
+  static [FL.of]<A>(value: A) {
+    return new Identity(value);
+  }
+  [FL.map]<B>(fn: (a: A) => B) {
+    return new Identity(fn(this.value));
+  }
+}
+
+describe("Fantasy Land", () => {
+  it("should expose the methods on the type representative", () => {
+    const m = just(5);
+    const rep = m.constructor as typeof Maybe;
+    eq(rep[FL.of](5), m);
+    expect(rep[FL.zero]().isNothing()).toBe(true);
+  });
+
+  describe("Setoid", () => {
+    it("should be reflexive, symmetric and transitive", () => {
+      for (const a of values) {
+        expect(a[FL.equals](a)).toBe(true);
+        for (const b of values) {
+          expect(a[FL.equals](b)).toBe(b[FL.equals](a));
+        }
+      }
+      const [a, b, c] = [just(1), just(1), just(1)];
+      expect(a[FL.equals](b) && b[FL.equals](c) && a[FL.equals](c)).toBe(true);
+    });
+
+    it("should use the Setoid of the contained values", () => {
+      eq(just(just(1)), just(just(1)));
+      expect(just(just(1))[FL.equals](just(just(2)))).toBe(false);
+    });
+  });
+
+  describe("Functor", () => {
+    it("should satisfy identity and composition", () => {
+      for (const u of values) {
+        eq(
+          u[FL.map]((a) => a),
+          u
+        );
+        eq(
+          u[FL.map]((x) => f(g(x))),
+          u[FL.map](g)[FL.map](f)
+        );
+      }
+    });
+  });
+
+  describe("Apply and Applicative", () => {
+    const fns: Maybe<(x: number) => number>[] = [just(f), nothing()];
+
+    it("should satisfy composition", () => {
+      for (const v of values) {
+        for (const u of fns) {
+          for (const a of fns) {
+            eq(
+              v[FL.ap](u[FL.ap](a[FL.map]((f) => (g) => (x) => f(g(x))))),
+              v[FL.ap](u)[FL.ap](a)
+            );
+          }
+        }
+      }
+    });
+
+    it("should satisfy identity, homomorphism and interchange", () => {
+      for (const v of values) {
+        eq(v[FL.ap](Maybe[FL.of]((x: number) => x)), v);
+      }
+      eq(Maybe[FL.of](5)[FL.ap](Maybe[FL.of](f)), Maybe[FL.of](f(5)));
+      for (const u of fns) {
+        eq(
+          Maybe[FL.of](5)[FL.ap](u),
+          u[FL.ap](Maybe[FL.of]((fn: (x: number) => number) => fn(5)))
+        );
+      }
+    });
+  });
+
+  describe("Chain and Monad", () => {
+    it("should satisfy associativity", () => {
+      for (const m of values) {
+        eq(
+          m[FL.chain](k)[FL.chain](h),
+          m[FL.chain]((x) => k(x)[FL.chain](h))
+        );
+      }
+    });
+
+    it("should satisfy left and right identity", () => {
+      for (const a of [1, 4, 5]) {
+        eq(Maybe[FL.of](a)[FL.chain](k), k(a));
+      }
+      for (const m of values) {
+        eq(m[FL.chain](Maybe[FL.of]), m);
+      }
+    });
+  });
+
+  describe("Alt, Plus and Alternative", () => {
+    it("should satisfy associativity and distributivity", () => {
+      for (const a of values) {
+        for (const b of values) {
+          for (const c of values) {
+            eq(a[FL.alt](b)[FL.alt](c), a[FL.alt](b[FL.alt](c)));
+          }
+          eq(a[FL.alt](b)[FL.map](f), a[FL.map](f)[FL.alt](b[FL.map](f)));
+        }
+      }
+    });
+
+    it("should satisfy left identity, right identity and annihilation", () => {
+      const zero = Maybe[FL.zero]<number>();
+      for (const x of values) {
+        eq(x[FL.alt](zero), x);
+        eq(zero[FL.alt](x), x);
+      }
+      eq(zero[FL.map](f), zero);
+    });
+
+    it("should satisfy Alternative distributivity and annihilation", () => {
+      const fns: Maybe<(x: number) => number>[] = [just(f), just(g), nothing()];
+      const zero = Maybe[FL.zero]<(x: number) => number>();
+      for (const x of values) {
+        for (const a of fns) {
+          for (const b of fns) {
+            eq(x[FL.ap](a[FL.alt](b)), x[FL.ap](a)[FL.alt](x[FL.ap](b)));
+          }
+        }
+        eq(x[FL.ap](zero), Maybe[FL.zero]());
+      }
+    });
+  });
+
+  describe("Foldable", () => {
+    it("should reduce like an array of zero or one elements", () => {
+      const add = (acc: number, x: number) => acc + x;
+      for (const u of values) {
+        const asArray = u[FL.reduce]<number[]>((acc, x) => acc.concat([x]), []);
+        expect(u[FL.reduce](add, 10)).toBe(asArray.reduce(add, 10));
+      }
+    });
+  });
+
+  describe("Traversable", () => {
+    it("should satisfy identity", () => {
+      for (const u of values) {
+        const result = u[FL.traverse](Identity, (x) => Identity[FL.of](x));
+        expect(result).toBeInstanceOf(Identity);
+        eq(result.value as Maybe<number>, u);
+      }
+    });
+
+    it("should satisfy naturality", () => {
+      // t turns an Identity into a Maybe
+      const t = <A>(i: Identity<A>) => just(i.value);
+      for (const u of values) {
+        const traversed = u[FL.traverse](Identity, (x) =>
+          Identity[FL.of](x)
+        ) as Identity<Maybe<number>>;
+        const lhs: Maybe<Maybe<number>> = t(traversed);
+        const rhs = u[FL.traverse](Maybe, (x) =>
+          t(Identity[FL.of](x))
+        ) as Maybe<Maybe<number>>;
+        eq(lhs, rhs);
+      }
+    });
+
+    it("should turn a Maybe of Maybe inside out", () => {
+      eq(just(5)[FL.traverse](Maybe, k), just(just(2)));
+      eq(just(1)[FL.traverse](Maybe, k), nothing());
+      eq(nothing<number>()[FL.traverse](Maybe, k), just(nothing()));
+    });
+  });
+
+  describe("Filterable", () => {
+    it("should satisfy distributivity, identity and annihilation", () => {
+      for (const v of values) {
+        eq(
+          v[FL.filter]((x) => p(x) && q(x)),
+          v[FL.filter](p)[FL.filter](q)
+        );
+        eq(
+          v[FL.filter](() => true),
+          v
+        );
+        eq(
+          v[FL.filter](() => false),
+          just(9)[FL.filter](() => false)
+        );
+      }
+    });
+  });
+});
+
+describe("Static Land", () => {
+  const M = MaybeStatic;
+
+  it("should use the Setoid of the contained values", () => {
+    expect(M.equals(just(just(1)), just(just(1)))).toBe(true);
+    expect(M.equals(just(just(1)), just(just(2)))).toBe(false);
+    expect(M.equals(nothing(), nothing())).toBe(true);
+  });
+
+  it("should satisfy the Functor and Monad laws", () => {
+    for (const u of values) {
+      expect(
+        M.equals(
+          M.map((a) => a, u),
+          u
+        )
+      ).toBe(true);
+      expect(
+        M.equals(
+          M.map((x: number) => f(g(x)), u),
+          M.map(f, M.map(g, u))
+        )
+      ).toBe(true);
+      expect(
+        M.equals(
+          M.chain(h, M.chain(k, u)),
+          M.chain((x: number) => M.chain(h, k(x)), u)
+        )
+      ).toBe(true);
+      expect(M.equals(M.chain(M.of, u), u)).toBe(true);
+    }
+    expect(M.equals(M.chain(k, M.of(5)), k(5))).toBe(true);
+  });
+
+  it("should satisfy the Applicative laws", () => {
+    for (const v of values) {
+      expect(
+        M.equals(
+          M.ap(
+            M.of((x: number) => x),
+            v
+          ),
+          v
+        )
+      ).toBe(true);
+    }
+    expect(M.equals(M.ap(M.of(f), M.of(5)), M.of(f(5)))).toBe(true);
+  });
+
+  it("should satisfy the Plus and Filterable laws", () => {
+    for (const x of values) {
+      expect(M.equals(M.alt(x, M.zero()), x)).toBe(true);
+      expect(M.equals(M.alt(M.zero(), x), x)).toBe(true);
+      expect(
+        M.equals(
+          M.filter(() => true, x),
+          x
+        )
+      ).toBe(true);
+      expect(M.filter(() => false, x).isNothing()).toBe(true);
+    }
+  });
+
+  it("should reduce and traverse", () => {
+    expect(M.reduce((acc: number, x: number) => acc + x, 1, just(2))).toBe(3);
+    expect(M.reduce((acc: number, x: number) => acc + x, 1, nothing())).toBe(1);
+
+    expect(M.equals(M.traverse(M, k, just(5)), just(just(2)))).toBe(true);
+    expect(M.equals(M.traverse(M, k, nothing()), just(nothing()))).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "bun:test";
+import * as fp from "../src/fp";
+import {
+  and,
+  assign,
+  elseDo,
+  getOrElseValue,
+  just,
+  map,
+  nothing,
+  orElse,
+  path,
+  prop,
+  tap,
+} from "../src/fp";
+import { map as mapModule } from "../src/fp/map";
+import * as functions from "../src/functions";
+import Maybe from "../src/Maybe";
+import { pipe } from "../src/pipe";
+
+describe("maybeasy/fp", () => {
+  it("should have a function for every Maybe method", () => {
+    const skipped = [
+      "constructor",
+      "explain",
+      "pipe",
+      "toJSON",
+      "toString",
+      "values",
+    ];
+    const renamed: Record<string, string> = { do: "tap" };
+    const methods = Object.getOwnPropertyNames(Maybe.prototype).filter(
+      (name) => !skipped.includes(name) && !name.startsWith("fantasy-land")
+    );
+    const missing = methods.filter((name) => !((renamed[name] ?? name) in fp));
+    expect(missing).toEqual([]);
+  });
+
+  it("should share the functions of the main entry point", () => {
+    expect(fp.map).toBe(functions.map);
+    expect(mapModule).toBe(functions.map);
+    expect(and).toBe(map);
+  });
+});
+
+describe("fp.orElse", () => {
+  it("should fall back for Nothing", () => {
+    expect(orElse(() => just(10), nothing<number>())).toEqual(just(10));
+    expect(
+      pipe(
+        just(5),
+        orElse(() => just(10))
+      )
+    ).toEqual(just(5));
+  });
+});
+
+describe("fp.assign", () => {
+  it("should build up an object in a pipeline", () => {
+    const result = pipe(
+      just({}),
+      assign("a", just(1)),
+      assign("b", (scope) => just(scope.a + 1))
+    );
+    expect(result).toEqual(just({ a: 1, b: 2 }));
+  });
+
+  it("should work with all arguments", () => {
+    expect(assign("a", nothing<number>(), just({})).isNothing()).toBe(true);
+  });
+});
+
+describe("fp.tap and fp.elseDo", () => {
+  it("should run side effects and pass the Maybe along", () => {
+    const seen: string[] = [];
+    const log = (m: Maybe<number>) =>
+      pipe(
+        m,
+        tap((x) => seen.push(`just ${x}`)),
+        elseDo(() => seen.push("nothing"))
+      );
+    expect(log(just(1))).toEqual(just(1));
+    expect(log(nothing()).isNothing()).toBe(true);
+    expect(seen).toEqual(["just 1", "nothing"]);
+  });
+});
+
+describe("fp.prop and fp.path", () => {
+  const payload = just({ user: { name: "Ada", tags: ["x"], email: null } });
+
+  it("should read from a Maybe", () => {
+    const name: string = pipe(
+      payload,
+      prop("user"),
+      prop("name"),
+      getOrElseValue("")
+    );
+    expect(name).toBe("Ada");
+    expect(prop("user", payload).isJust()).toBe(true);
+    expect(pipe(payload, path(["user", "email"])).isNothing()).toBe(true);
+    expect(path(["user", "tags", 0], payload)).toEqual(just("x"));
+  });
+
+  it("should reject unknown keys at compile time", () => {
+    // @ts-expect-error "nope" is not a key of the payload
+    expect(prop("nope", payload).isNothing()).toBe(true);
+  });
+});
+
+describe("pipe inference", () => {
+  it("should infer types through partially applied functions", () => {
+    const result: string = pipe(
+      just(2),
+      fp.map((x) => x * 3),
+      fp.filter((x) => x > 5),
+      fp.zipWith(just("!"), (n, s) => `${n}${s}`),
+      fp.or(just("?")),
+      fp.getOrElseValue("")
+    );
+    expect(result).toBe("6!");
+  });
+});
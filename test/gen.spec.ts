@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import AsyncMaybe from "../src/AsyncMaybe";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+const half = (n: number): Maybe<number> =>
+  n % 2 === 0 ? just(n / 2) : nothing();
+
+describe("Maybe.gen", () => {
+  it("should bind the values of Justs and wrap the result", () => {
+    const result = Maybe.gen(function* (bind) {
+      const a = yield* bind(just(8));
+      const b = yield* bind(half(a));
+      const c = yield* bind(just("!"));
+      return `${a + b}${c}`;
+    });
+    expect(result.isJust()).toBe(true);
+    expect(result.state).toBe("12!");
+  });
+
+  it("should short-circuit on the first Nothing", () => {
+    const reached: number[] = [];
+    const result = Maybe.gen(function* (bind) {
+      const a = yield* bind(half(6));
+      reached.push(a);
+      const b = yield* bind(half(a));
+      reached.push(b);
+      return a + b;
+    });
+    expect(result.isNothing()).toBe(true);
+    expect(reached).toEqual([3]);
+  });
+
+  it("should run finally blocks when short-circuiting", () => {
+    let cleanedUp = false;
+    const result = Maybe.gen(function* (bind) {
+      try {
+        return yield* bind(nothing<number>());
+      } finally {
+        cleanedUp = true;
+      }
+    });
+    expect(result.isNothing()).toBe(true);
+    expect(cleanedUp).toBe(true);
+  });
+});
+
+describe("AsyncMaybe.gen", () => {
+  const lookup = async (n: number): Promise<Maybe<number>> => half(n);
+
+  it("should bind Maybe, promised Maybe and AsyncMaybe values", async () => {
+    const result = await AsyncMaybe.gen(async function* (bind) {
+      const a = yield* bind(just(8));
+      const b = yield* bind(lookup(a));
+      const c = yield* bind(AsyncMaybe.from(lookup(b)));
+      return a + b + c;
+    });
+    expect(result.isJust()).toBe(true);
+    expect(result.state).toBe(14);
+  });
+
+  it("should short-circuit on the first Nothing", async () => {
+    let reached = false;
+    const result = await AsyncMaybe.gen(async function* (bind) {
+      const a = yield* bind(AsyncMaybe.from(lookup(3)));
+      reached = true;
+      return a;
+    });
+    expect(result.isNothing()).toBe(true);
+    expect(reached).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+interface Animal {
+  name: string;
+}
+
+interface Dog extends Animal {
+  bark: () => string;
+}
+
+describe("immutability", () => {
+  it("should not allow the value of a Just to be replaced", () => {
+    const m = just(1);
+    expect(Object.isFrozen(m)).toBe(true);
+    expect(Reflect.set(m, "value", 2)).toBe(false);
+    expect(Reflect.set(m, "state", null)).toBe(false);
+    expect(m.isJust() && m.value).toBe(1);
+  });
+
+  it("should not allow a Nothing to be changed", () => {
+    const m = nothing<number>();
+    expect(Object.isFrozen(m)).toBe(true);
+    expect(Reflect.set(m, "value", 2)).toBe(false);
+    expect(m.isNothing()).toBe(true);
+  });
+
+  it("should reject assignments at compile time", () => {
+    const m = just(1);
+    if (m.isJust()) {
+      // @ts-expect-error value is read-only
+      expect(() => (m.value = 2)).toThrow(TypeError);
+    }
+    // @ts-expect-error state is read-only
+    expect(() => (m.state = null)).toThrow(TypeError);
+  });
+
+  it("should leave the contained value alone by default", () => {
+    const value = { tags: ["a"] };
+    just(value);
+    expect(Object.isFrozen(value)).toBe(false);
+  });
+});
+
+describe("variance", () => {
+  it("should be covariant in the contained type", () => {
+    const dog: Dog = { name: "Rex", bark: () => "Woof" };
+    const dogs: Maybe<Dog> = just(dog);
+    const animals: Maybe<Animal> = dogs;
+    expect(animals.map((a) => a.name)).toEqual(just("Rex"));
+
+    const animal: Maybe<Animal> = just({ name: "Tom" });
+    // @ts-expect-error not every Animal is a Dog
+    const notDogs: Maybe<Dog> = animal;
+    expect(notDogs.isJust()).toBe(true);
+  });
+
+  it("should still narrow with isJust and isNothing", () => {
+    const animals: Maybe<Animal> = just({ name: "Tom" });
+    if (animals.isJust()) {
+      const name: string = animals.value.name;
+      expect(name).toBe("Tom");
+    }
+    const none: Maybe<Animal> = nothing();
+    if (none.isNothing()) {
+      expect(none.kind).toBe("Nothing");
+    }
+  });
+});
+
+describe("Maybe.enableDeepFreeze", () => {
+  afterEach(() => {
+    Maybe.disableDeepFreeze();
+  });
+
+  it("should deep-freeze plain objects and arrays", () => {
+    Maybe.enableDeepFreeze();
+    expect(Maybe.isDeepFreezing()).toBe(true);
+    const value = { user: { tags: ["a"] } };
+    just(value);
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.user)).toBe(true);
+    expect(() => value.user.tags.push("b")).toThrow(TypeError);
+  });
+
+  it("should leave class instances alone", () => {
+    Maybe.enableDeepFreeze();
+    const value = { when: new Date(0), lookup: new Map<string, number>() };
+    just(value);
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.when)).toBe(false);
+    value.lookup.set("a", 1);
+    expect(value.lookup.get("a")).toBe(1);
+  });
+
+  it("should handle cycles", () => {
+    Maybe.enableDeepFreeze();
+    const value: { self?: unknown; items: unknown[] } = { items: [] };
+    value.self = value;
+    value.items.push(value);
+    expect(just(value).isJust()).toBe(true);
+    expect(Object.isFrozen(value.items)).toBe(true);
+  });
+
+  it("should freeze values produced by map", () => {
+    Maybe.enableDeepFreeze();
+    const result = just(1).map((n) => ({ n }));
+    expect(result.isJust() && Object.isFrozen(result.value)).toBe(true);
+  });
+});
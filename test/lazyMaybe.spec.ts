@@ -0,0 +1,99 @@
+import { describe, it, expect } from "bun:test";
+import LazyMaybe from "../src/LazyMaybe";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+describe("Maybe.lazy", () => {
+  it("should not evaluate until forced", () => {
+    let calls = 0;
+    const lazy = Maybe.lazy(() => {
+      calls++;
+      return just(5);
+    });
+    const mapped = lazy.map((x) => x * 2).filter((x) => x > 5);
+    expect(calls).toBe(0);
+    expect(lazy.isForced()).toBe(false);
+    expect(mapped.getOrElseValue(0)).toBe(10);
+    expect(calls).toBe(1);
+  });
+
+  it("should memoize the result", () => {
+    let calls = 0;
+    const lazy = Maybe.lazy(() => {
+      calls++;
+      return just({ id: 1 });
+    });
+    const first = lazy.force();
+    expect(lazy.force()).toBe(first);
+    expect(
+      lazy
+        .map((x) => x.id)
+        .force()
+        .getOrElseValue(0)
+    ).toBe(1);
+    expect(calls).toBe(1);
+    expect(lazy.isForced()).toBe(true);
+  });
+
+  it("should flatten a thunk returning a LazyMaybe", () => {
+    const lazy = Maybe.lazy(() => LazyMaybe.just("a"));
+    expect(lazy.force().getOrElseValue("")).toBe("a");
+  });
+});
+
+describe("LazyMaybe.orElse", () => {
+  it("should evaluate candidates only until the first Just", () => {
+    const evaluated: string[] = [];
+    const candidate = (name: string, result: Maybe<number>) =>
+      Maybe.lazy(() => {
+        evaluated.push(name);
+        return result;
+      });
+
+    const chain = candidate("cache", nothing())
+      .orElse(candidate("disk", just(2)))
+      .orElse(() => candidate("network", just(3)));
+    expect(evaluated).toEqual([]);
+    expect(chain.getOrElseValue(0)).toBe(2);
+    expect(evaluated).toEqual(["cache", "disk"]);
+  });
+
+  it("should not evaluate a fallback for a Just", () => {
+    let called = false;
+    const result = LazyMaybe.just(1).orElse(() => {
+      called = true;
+      return just(2);
+    });
+    expect(result.getOrElseValue(0)).toBe(1);
+    expect(called).toBe(false);
+  });
+});
+
+describe("LazyMaybe", () => {
+  it("should chain with andThen", () => {
+    const half = (x: number) =>
+      x % 2 === 0 ? LazyMaybe.just(x / 2) : nothing<number>();
+    expect(LazyMaybe.just(8).andThen(half).andThen(half).force()).toEqual(
+      just(2)
+    );
+    expect(LazyMaybe.just(3).andThen(half).force().isNothing()).toBe(true);
+  });
+
+  it("should pattern match with cata", () => {
+    const describe = (lazy: LazyMaybe<number>) =>
+      lazy.cata({ Just: (x) => `just ${x}`, Nothing: () => "nothing" });
+    expect(describe(LazyMaybe.just(1))).toBe("just 1");
+    expect(describe(LazyMaybe.nothing())).toBe("nothing");
+    expect(LazyMaybe.nothing<number>().cata({ _: () => "default" })).toBe(
+      "default"
+    );
+  });
+
+  it("should use the default for Nothing", () => {
+    expect(LazyMaybe.nothing<number>().getOrElse(() => 7)).toBe(7);
+    expect(
+      LazyMaybe.nothing<number>()
+        .filter(() => true)
+        .force()
+    ).toEqual(nothing());
+  });
+});
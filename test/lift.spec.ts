@@ -0,0 +1,75 @@
+import { describe, it, expect } from "bun:test";
+import { lift, map2, map3 } from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+const add3 = (a: number, b: number, c: number) => a + b + c;
+
+describe("lift", () => {
+  it("should apply the function when every argument is Just", () => {
+    const result: Maybe<number> = lift(add3)(just(1), just(2), just(3));
+    expect(result.getOrElseValue(0)).toBe(6);
+  });
+
+  it("should keep argument types of mixed arity", () => {
+    const repeat = lift((s: string, n: number) => s.repeat(n));
+    expect(repeat(just("ab"), just(2)).getOrElseValue("")).toBe("abab");
+    expect(lift(() => 1)().getOrElseValue(0)).toBe(1);
+  });
+
+  it("should short-circuit without calling the function", () => {
+    let calls = 0;
+    const counted = lift((a: number, b: number) => {
+      calls++;
+      return a + b;
+    });
+    expect(counted(just(1), nothing()).isNothing()).toBe(true);
+    expect(calls).toBe(0);
+  });
+});
+
+describe("Maybe.map2 and Maybe.map3", () => {
+  it("should combine Justs", () => {
+    expect(
+      just(2)
+        .map2(just(3), (a, b) => a * b)
+        .getOrElseValue(0)
+    ).toBe(6);
+    expect(
+      just(1)
+        .map3(just("a"), just(true), (a, b, c) => `${a}${b}${c}`)
+        .getOrElseValue("")
+    ).toBe("1atrue");
+  });
+
+  it("should return Nothing without calling the function", () => {
+    let called = false;
+    const fn = (a: number, b: number) => {
+      called = true;
+      return a + b;
+    };
+    expect(nothing<number>().map2(just(1), fn).isNothing()).toBe(true);
+    expect(just(1).map2(nothing<number>(), fn).isNothing()).toBe(true);
+    expect(
+      just(1)
+        .map3(just(2), nothing<number>(), (a, b, c) => a + b + c)
+        .isNothing()
+    ).toBe(true);
+    expect(called).toBe(false);
+  });
+});
+
+describe("map2 and map3", () => {
+  it("should work with all arguments", () => {
+    expect(
+      map2((a: number, b: number) => a - b, just(5), just(3)).getOrElseValue(0)
+    ).toBe(2);
+    expect(map3(add3, just(1), just(2), just(3)).getOrElseValue(0)).toBe(6);
+  });
+
+  it("should work in curried form", () => {
+    const multiply = map2((a: number, b: number) => a * b);
+    expect(multiply(just(2), just(4)).getOrElseValue(0)).toBe(8);
+    expect(multiply(just(2), nothing()).isNothing()).toBe(true);
+    expect(map3(add3)(just(1), just(1), nothing()).isNothing()).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "bun:test";
+import {
+  at,
+  find,
+  findIndex,
+  findLast,
+  head,
+  last,
+  lookup,
+  lookupKey,
+} from "../src/lookup";
+import Maybe from "../src/Maybe";
+import { pipe } from "../src/pipe";
+
+describe("lookup", () => {
+  const ages = new Map<string, number | undefined>([
+    ["ada", 36],
+    ["unknown", undefined],
+  ]);
+
+  it("should look up a key in a Map", () => {
+    expect(lookup("ada", ages).getOrElseValue(0)).toBe(36);
+    expect(lookup("bob", ages).isNothing()).toBe(true);
+  });
+
+  it("should keep a stored undefined", () => {
+    const result = lookup("unknown", ages);
+    expect(result.isJust()).toBe(true);
+    expect(result.getOrElseValue(0)).toBeUndefined();
+  });
+
+  it("should check membership of a Set", () => {
+    const admins = new Set(["ada"]);
+    expect(lookup("ada", admins).getOrElseValue("")).toBe("ada");
+    expect(lookup("bob", admins).isNothing()).toBe(true);
+  });
+
+  it("should work in curried form", () => {
+    const findAda = lookup("ada");
+    const age: Maybe<number | undefined> = findAda(ages);
+    expect(age.getOrElseValue(0)).toBe(36);
+    const member: Maybe<string> = findAda(new Set(["ada"]));
+    expect(member.isJust()).toBe(true);
+  });
+
+  it("should type the curried form as a map lookup in pipe", () => {
+    const users = new Map([["a", { name: "Ada" }]]);
+    const user: Maybe<{ name: string }> = pipe(users, lookup("a"));
+    expect(user.map((u) => u.name).getOrElseValue("")).toBe("Ada");
+  });
+});
+
+describe("lookupKey", () => {
+  const counts: Record<string, number | undefined> = {
+    apples: 3,
+    pears: undefined,
+  };
+
+  it("should look up own properties", () => {
+    expect(lookupKey("apples", counts).getOrElseValue(0)).toBe(3);
+    expect(lookupKey("pears", counts).isJust()).toBe(true);
+    expect(lookupKey("plums", counts).isNothing()).toBe(true);
+  });
+
+  it("should ignore inherited properties", () => {
+    expect(lookupKey("toString", counts).isNothing()).toBe(true);
+  });
+
+  it("should work in curried form", () => {
+    expect(lookupKey("apples")(counts).getOrElseValue(0)).toBe(3);
+  });
+});
+
+describe("find, findIndex and findLast", () => {
+  const values = [1, 2, 3, 4];
+
+  it("should find the first match", () => {
+    expect(find((n: number) => n > 1, values).getOrElseValue(0)).toBe(2);
+    expect(find((n: number) => n > 9, values).isNothing()).toBe(true);
+    expect(find((x) => x === undefined, [undefined]).isJust()).toBe(true);
+  });
+
+  it("should narrow with a type guard", () => {
+    const mixed: (string | number)[] = [1, "a"];
+    const s: Maybe<string> = find(
+      (x: string | number): x is string => typeof x === "string",
+      mixed
+    );
+    expect(s.getOrElseValue("")).toBe("a");
+  });
+
+  it("should find the index of the first match", () => {
+    expect(findIndex((n: number) => n > 1, values).getOrElseValue(-1)).toBe(1);
+    expect(findIndex((n: number) => n > 9, values).isNothing()).toBe(true);
+  });
+
+  it("should find the last match", () => {
+    expect(findLast((n: number) => n < 3, values).getOrElseValue(0)).toBe(2);
+    expect(findLast((n: number) => n > 9, values).isNothing()).toBe(true);
+  });
+
+  it("should work in curried form", () => {
+    const even = (n: number) => n % 2 === 0;
+    expect(find(even)(values).getOrElseValue(0)).toBe(2);
+    expect(findIndex(even)(values).getOrElseValue(-1)).toBe(1);
+    expect(findLast(even)(values).getOrElseValue(0)).toBe(4);
+  });
+});
+
+describe("at, head and last", () => {
+  it("should return the element at an index", () => {
+    expect(at(1, ["a", "b"]).getOrElseValue("")).toBe("b");
+    expect(at(-1, ["a", "b"]).getOrElseValue("")).toBe("b");
+    expect(at(1)(["a", "b"]).getOrElseValue("")).toBe("b");
+  });
+
+  it("should bounds-check the index", () => {
+    expect(at(2, ["a", "b"]).isNothing()).toBe(true);
+    expect(at(-3, ["a", "b"]).isNothing()).toBe(true);
+    expect(at(0.5, ["a", "b"]).isNothing()).toBe(true);
+    expect(at(0, [undefined]).isJust()).toBe(true);
+  });
+
+  it("should return the first and last elements", () => {
+    expect(head([1, 2, 3]).getOrElseValue(0)).toBe(1);
+    expect(last([1, 2, 3]).getOrElseValue(0)).toBe(3);
+    expect(head([]).isNothing()).toBe(true);
+    expect(last([]).isNothing()).toBe(true);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "bun:test";
+import { cata, fold, mapOr, mapOrElse } from "../src/functions";
+import { match } from "../src/match";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+type Color = "red" | "green";
+
+describe("match", () => {
+  it("should use the first case that matches", () => {
+    const describe = (m: Maybe<number>) =>
+      match(m)
+        .when(0, () => "zero")
+        .when(
+          (n) => n < 0,
+          (n) => `negative ${n}`
+        )
+        .when(
+          (n) => n < 10,
+          () => "small"
+        )
+        .otherwise(() => "other");
+
+    expect(describe(just(0))).toBe("zero");
+    expect(describe(just(-2))).toBe("negative -2");
+    expect(describe(just(5))).toBe("small");
+    expect(describe(just(50))).toBe("other");
+    expect(describe(nothing())).toBe("other");
+  });
+
+  it("should only call the handler of the matching case", () => {
+    const calls: string[] = [];
+    match(just(1))
+      .when(1, () => calls.push("one"))
+      .when(
+        () => true,
+        () => calls.push("any")
+      )
+      .otherwise(() => calls.push("otherwise"));
+    expect(calls).toEqual(["one"]);
+  });
+
+  it("should handle Nothing with its own case", () => {
+    expect(
+      match(nothing<number>())
+        .when(1, () => "one")
+        .nothing(() => "none")
+        .otherwise(() => "other")
+    ).toBe("none");
+    expect(
+      match(just(2))
+        .nothing(() => "none")
+        .otherwise(() => "other")
+    ).toBe("other");
+  });
+
+  it("should narrow with type guards", () => {
+    const value: Maybe<string | number> = just("a");
+    const result: string = match(value)
+      .when(
+        (v): v is string => typeof v === "string",
+        (s) => s.toUpperCase()
+      )
+      .when(
+        (v): v is number => typeof v === "number",
+        (n) => n.toFixed(1)
+      )
+      .nothing(() => "none")
+      .exhaustive();
+    expect(result).toBe("A");
+  });
+
+  it("should only take primitives as value patterns", () => {
+    const origin = { x: 0 };
+    const label = match(just(origin))
+      // @ts-expect-error objects only match by reference
+      .when(origin, () => "origin")
+      .otherwise(() => "elsewhere");
+    expect(label).toBe("origin");
+    expect(
+      match(just({ x: 0 }))
+        .when(
+          (p) => p.x === 0,
+          () => "on the axis"
+        )
+        .otherwise(() => "elsewhere")
+    ).toBe("on the axis");
+  });
+
+  it("should check exhaustiveness at compile time", () => {
+    const label = (m: Maybe<Color>) =>
+      match(m)
+        .when("red", () => "Stop")
+        .when("green", () => "Go")
+        .nothing(() => "Off")
+        .exhaustive();
+    expect(label(just("green"))).toBe("Go");
+    expect(label(nothing())).toBe("Off");
+
+    const missingGreen = match(just<Color>("red"))
+      .when("red", () => "Stop")
+      .nothing(() => "Off");
+    // @ts-expect-error "green" has no case
+    expect(missingGreen.exhaustive()).toBe("Stop");
+
+    const missingNothing = match(just<Color>("red"))
+      .when("red", () => "Stop")
+      .when("green", () => "Go");
+    // @ts-expect-error Nothing has no case
+    expect(missingNothing.exhaustive()).toBe("Stop");
+  });
+});
+
+describe("Maybe.cata with a default branch", () => {
+  it("should fall back to _ for a missing case", () => {
+    const isAdmin = (m: Maybe<string>) =>
+      m.cata({ Just: (role) => role === "admin", _: () => false });
+    expect(isAdmin(just("admin"))).toBe(true);
+    expect(isAdmin(nothing())).toBe(false);
+
+    const orDefault = cata<number, number>({ Nothing: () => 0, _: () => -1 });
+    expect(orDefault(nothing())).toBe(0);
+    expect(orDefault(just(5))).toBe(-1);
+  });
+
+  it("should require both cases without a default", () => {
+    // @ts-expect-error Nothing has no case and there is no default
+    expect(just(1).cata({ Just: (x) => x })).toBe(1);
+  });
+});
+
+describe("fold, mapOr and mapOrElse", () => {
+  it("should fold a Maybe", () => {
+    const show = (x: number) => `got ${x}`;
+    expect(just(5).fold(() => "none", show)).toBe("got 5");
+    expect(nothing<number>().fold(() => "none", show)).toBe("none");
+    expect(fold(() => "none", show, just(1))).toBe("got 1");
+    expect(fold(() => "none", show)(nothing())).toBe("none");
+  });
+
+  it("should map with a default", () => {
+    const length = (s: string) => s.length;
+    expect(just("ada").mapOr(0, length)).toBe(3);
+    expect(nothing<string>().mapOr(0, length)).toBe(0);
+    expect(mapOr(0, length, just("ab"))).toBe(2);
+    expect(mapOr(0, length)(nothing())).toBe(0);
+  });
+
+  it("should only compute the default when needed", () => {
+    let calls = 0;
+    const fallback = () => {
+      calls++;
+      return 0;
+    };
+    const length = (s: string) => s.length;
+    expect(just("ada").mapOrElse(fallback, length)).toBe(3);
+    expect(calls).toBe(0);
+    expect(nothing<string>().mapOrElse(fallback, length)).toBe(0);
+    expect(mapOrElse(fallback, length)(nothing())).toBe(0);
+    expect(calls).toBe(2);
+  });
+});
@@ -1,4 +1,4 @@
-import Maybe, { just, nothing, maybe } from "../src/Maybe";
+import Maybe, { Just, just, Nothing, nothing, maybe } from "../src/Maybe";
 import { describe, it, expect } from "bun:test";
 
 describe("Maybe", () => {
@@ -8,6 +8,25 @@ describe("Maybe", () => {
       expect(result.isJust()).toBe(true);
       expect(result.state).toBe(5);
     });
+
+    it("should create a Just instance with a typed value", () => {
+      const result: Just<number> = just(5);
+      expect(result).toBeInstanceOf(Just);
+      expect(result).toBeInstanceOf(Maybe);
+      expect(result.kind).toBe("Just");
+      expect(result.value).toBe(5);
+    });
+
+    it("should hold null and undefined", () => {
+      const nullJust = just(null);
+      expect(nullJust.isJust()).toBe(true);
+      expect(nullJust.value).toBe(null);
+      expect(nullJust.map((x) => x === null).getOrElseValue(false)).toBe(true);
+
+      const undefinedJust = just(undefined);
+      expect(undefinedJust.isJust()).toBe(true);
+      expect(undefinedJust.value).toBe(undefined);
+    });
   });
 
   describe("nothing", () => {
@@ -16,6 +35,12 @@ describe("Maybe", () => {
       expect(result.isNothing()).toBe(true);
       expect(result.state).toBe(null);
     });
+
+    it("should create a Nothing instance", () => {
+      const result = nothing<number>();
+      expect(result).toBeInstanceOf(Nothing);
+      expect(result.kind).toBe("Nothing");
+    });
   });
 
   describe("maybe", () => {
@@ -30,6 +55,10 @@ describe("Maybe", () => {
       expect(result.isNothing()).toBe(true);
       expect(result.state).toBe(null);
     });
+
+    it("should treat only null as absent", () => {
+      expect(maybe<number | undefined>(undefined).isJust()).toBe(true);
+    });
   });
 
   describe("getOrElse", () => {
@@ -232,6 +261,15 @@ describe("Maybe", () => {
       expect(just(5).isJust()).toBe(true);
     });
 
+    it("should narrow to a Just with a value", () => {
+      const m: Maybe<string | null> = just(null);
+      if (!m.isJust()) {
+        throw new Error("expected a Just");
+      }
+      const value: string | null = m.value;
+      expect(value).toBe(null);
+    });
+
     it("should return false if it is a Nothing", () => {
       expect(nothing().isJust()).toBe(false);
     });
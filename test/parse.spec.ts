@@ -0,0 +1,134 @@
+import { describe, it, expect } from "bun:test";
+import { nothing } from "../src/Maybe";
+import {
+  parseBigInt,
+  parseDate,
+  parseFloatStrict,
+  parseInteger,
+  parseJSON,
+  parseURL,
+  tryCatch,
+  tryCatchK,
+} from "../src/parse";
+
+describe("tryCatch", () => {
+  it("should wrap the result of a function that returns", () => {
+    expect(tryCatch(() => 5).getOrElseValue(0)).toBe(5);
+    expect(tryCatch(() => null).isNothing()).toBe(true);
+  });
+
+  it("should return Nothing and call onError when the function throws", () => {
+    const errors: unknown[] = [];
+    const boom = new Error("boom");
+    const result = tryCatch(
+      () => {
+        throw boom;
+      },
+      (e) => errors.push(e)
+    );
+    expect(result.isNothing()).toBe(true);
+    expect(errors).toEqual([boom]);
+  });
+});
+
+describe("tryCatchK", () => {
+  it("should convert a throwing function", () => {
+    const errors: unknown[] = [];
+    const safeDecode = tryCatchK(decodeURIComponent, (e) => errors.push(e));
+    expect(safeDecode("a%20b").getOrElseValue("")).toBe("a b");
+    expect(safeDecode("%E0%A4%A").isNothing()).toBe(true);
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe("parseJSON", () => {
+  it("should parse valid JSON", () => {
+    expect(parseJSON('{"a":1}').getOrElseValue(null)).toEqual({ a: 1 });
+    expect(parseJSON("0").getOrElseValue(null)).toBe(0);
+  });
+
+  it("should return Nothing for invalid JSON and null", () => {
+    expect(parseJSON("{a:1}").isNothing()).toBe(true);
+    expect(parseJSON("null").isNothing()).toBe(true);
+  });
+});
+
+describe("parseInteger", () => {
+  it("should parse whole integers", () => {
+    expect(parseInteger("42").getOrElseValue(0)).toBe(42);
+    expect(parseInteger(" -7 ").getOrElseValue(0)).toBe(-7);
+    expect(parseInteger("+3").getOrElseValue(0)).toBe(3);
+  });
+
+  it("should reject partial parses and non-integers", () => {
+    for (const text of ["12abc", "1.5", "", " ", "abc", "1e3", "0x10"]) {
+      expect(parseInteger(text).equals(nothing())).toBe(true);
+    }
+    expect(parseInteger("12345678901234567890").isNothing()).toBe(true);
+  });
+});
+
+describe("parseFloatStrict", () => {
+  it("should parse whole numbers", () => {
+    expect(parseFloatStrict("1.5").getOrElseValue(0)).toBe(1.5);
+    expect(parseFloatStrict(".5").getOrElseValue(0)).toBe(0.5);
+    expect(parseFloatStrict("-2e3").getOrElseValue(0)).toBe(-2000);
+  });
+
+  it("should reject partial parses and special values", () => {
+    for (const text of ["1.5kg", "", "Infinity", "NaN", "0x10", "."]) {
+      expect(parseFloatStrict(text).isNothing()).toBe(true);
+    }
+  });
+});
+
+describe("parseDate", () => {
+  it("should create valid dates", () => {
+    expect(
+      parseDate("2024-02-29")
+        .map((d) => d.toISOString())
+        .getOrElseValue("")
+    ).toBe("2024-02-29T00:00:00.000Z");
+    expect(
+      parseDate(0)
+        .map((d) => d.getTime())
+        .getOrElseValue(-1)
+    ).toBe(0);
+  });
+
+  it("should reject invalid dates", () => {
+    expect(parseDate("not a date").isNothing()).toBe(true);
+    expect(parseDate(NaN).isNothing()).toBe(true);
+  });
+});
+
+describe("parseURL", () => {
+  it("should create URLs", () => {
+    expect(
+      parseURL("https://example.com/a")
+        .map((u) => u.pathname)
+        .getOrElseValue("")
+    ).toBe("/a");
+    expect(
+      parseURL("/b", "https://example.com").map(String).getOrElseValue("")
+    ).toBe("https://example.com/b");
+  });
+
+  it("should reject invalid URLs", () => {
+    expect(parseURL("not a url").isNothing()).toBe(true);
+  });
+});
+
+describe("parseBigInt", () => {
+  it("should parse bigints", () => {
+    expect(parseBigInt("9007199254740993").getOrElseValue(0n)).toBe(
+      9007199254740993n
+    );
+  });
+
+  it("should reject invalid and empty input", () => {
+    expect(parseBigInt("1.5").isNothing()).toBe(true);
+    expect(parseBigInt("").isNothing()).toBe(true);
+    expect(parseBigInt("  ").isNothing()).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "bun:test";
+import { filter, fromNullable, getOrElseValue, map } from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+import { composeK, flow, pipe, pipeK } from "../src/pipe";
+
+const inc = (n: number) => n + 1;
+const half = (n: number): Maybe<number> =>
+  n % 2 === 0 ? just(n / 2) : nothing();
+
+describe("pipe", () => {
+  it("should pass a value through functions from left to right", () => {
+    expect(pipe(1)).toBe(1);
+    expect(pipe(1, inc, String)).toBe("2");
+  });
+
+  it("should work with the curried functions", () => {
+    const label: string = pipe(
+      fromNullable<string>(" ada "),
+      map((name: string) => name.trim()),
+      filter((name: string) => name.length > 0),
+      getOrElseValue("anonymous")
+    );
+    expect(label).toBe("ada");
+  });
+
+  it("should infer types across at least 10 steps", () => {
+    const result: string = pipe(
+      0,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      inc,
+      (n: number) => n * 2,
+      (n: number) => `${n}`
+    );
+    expect(result).toBe("20");
+  });
+});
+
+describe("Maybe.pipe", () => {
+  it("should pass the Maybe through functions", () => {
+    const label: string = fromNullable<string>(null).pipe(
+      map((name: string) => name.trim()),
+      getOrElseValue("anonymous")
+    );
+    expect(label).toBe("anonymous");
+    expect(just(1).pipe(map(inc), map(inc)).getOrElseValue(0)).toBe(3);
+  });
+});
+
+describe("flow", () => {
+  it("should compose functions from left to right", () => {
+    const addThenShow = flow((a: number, b: number) => a + b, inc, String);
+    expect(addThenShow(1, 2)).toBe("4");
+  });
+});
+
+describe("pipeK and composeK", () => {
+  it("should chain Maybe-returning functions", () => {
+    const quarter = pipeK(half, half);
+    expect(quarter(8).getOrElseValue(0)).toBe(2);
+    expect(quarter(6).isNothing()).toBe(true);
+
+    const quarterString = composeK((n: number) => just(String(n)), half, half);
+    expect(quarterString(8).getOrElseValue("")).toBe("2");
+  });
+
+  it("should stop at the first Nothing", () => {
+    const calls: number[] = [];
+    const record = (n: number) => {
+      calls.push(n);
+      return just(n);
+    };
+    expect(pipeK(half, record)(3).isNothing()).toBe(true);
+    expect(calls).toEqual([]);
+  });
+
+  it("should infer types across at least 10 steps", () => {
+    const j = (n: number) => just(n + 1);
+    const toStr = (n: number) => just(String(n));
+    const long: (a: number) => Maybe<string> = pipeK(
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      toStr
+    );
+    expect(long(0).getOrElseValue("")).toBe("10");
+
+    const longCompose: (a: number) => Maybe<string> = composeK(
+      toStr,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j,
+      j
+    );
+    expect(longCompose(0).getOrElseValue("")).toBe("10");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "bun:test";
+import Maybe, { just, nothing } from "../src/Maybe";
+import { path, prop } from "../src/props";
+
+type Payload = {
+  user?: {
+    name: string;
+    email: string | null;
+    addresses: { city: string }[];
+  };
+  tags: [number, string];
+};
+
+const payload: Payload = {
+  user: {
+    name: "Ada",
+    email: null,
+    addresses: [{ city: "Paris" }],
+  },
+  tags: [1, "one"],
+};
+
+describe("prop", () => {
+  it("should read a property into a Maybe", () => {
+    const user = prop("user", payload);
+    expect(user.isJust()).toBe(true);
+    expect(prop("tags", payload).getOrElseValue([0, ""])).toEqual([1, "one"]);
+  });
+
+  it("should return Nothing for a missing or null property", () => {
+    expect(prop("user", { tags: [1, "one"] } as Payload).isNothing()).toBe(
+      true
+    );
+    expect(just(payload.user!).prop("email").isNothing()).toBe(true);
+  });
+
+  it("should work in curried form with andThen", () => {
+    const name: Maybe<string> = just(payload)
+      .andThen(prop("user"))
+      .andThen(prop("name"));
+    expect(name.getOrElseValue("")).toBe("Ada");
+  });
+
+  it("should reject unknown keys at compile time", () => {
+    // @ts-expect-error "nope" is not a key of Payload
+    expect(just(payload).prop("nope").isNothing()).toBe(true);
+  });
+});
+
+describe("path", () => {
+  it("should follow keys and indices", () => {
+    const city: Maybe<string> = path(["user", "addresses", 0, "city"], payload);
+    expect(city.getOrElseValue("")).toBe("Paris");
+
+    const tag: Maybe<string> = just(payload).path(["tags", 1]);
+    expect(tag.getOrElseValue("")).toBe("one");
+  });
+
+  it("should return Nothing on a missing or null step", () => {
+    expect(just(payload).path(["user", "email"]).isNothing()).toBe(true);
+    expect(
+      just<Payload>({ tags: [1, "one"] })
+        .path(["user", "addresses", 0, "city"])
+        .isNothing()
+    ).toBe(true);
+    expect(nothing<Payload>().path(["tags"]).isNothing()).toBe(true);
+  });
+
+  it("should bounds-check array indices", () => {
+    const sparse = { items: [undefined, 1, 2] as (number | undefined)[] };
+    expect(path(["items", 0], sparse).isNothing()).toBe(true);
+    expect(path(["items", 3], sparse).isNothing()).toBe(true);
+    expect(path(["items", -1], sparse).isNothing()).toBe(true);
+    expect(path(["items", 1.5], sparse).isNothing()).toBe(true);
+    expect(path(["items", 2], sparse).getOrElseValue(0)).toBe(2);
+  });
+
+  it("should work in curried form with andThen", () => {
+    const city: Maybe<string> = just(payload).andThen(
+      path(["user", "addresses", 0, "city"])
+    );
+    expect(city.getOrElseValue("")).toBe("Paris");
+  });
+
+  it("should reject invalid paths at compile time", () => {
+    // @ts-expect-error "nope" is not a key of the user
+    expect(path(["user", "nope"], payload).isNothing()).toBe(true);
+    // @ts-expect-error "nope" is not a key of the user
+    expect(just(payload).path(["user", "nope"]).isNothing()).toBe(true);
+    const nope = just(payload).andThen(
+      // @ts-expect-error "nope" is not a key of the user
+      path(["user", "nope"])
+    );
+    expect(nope.isNothing()).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "bun:test";
+import {
+  sequenceResult,
+  toMaybe,
+  toResult,
+  traverseResult,
+} from "../src/functions";
+import { just, nothing } from "../src/Maybe";
+import Result, { err, ok } from "../src/Result";
+
+const parse = (s: string): Result<string, number> =>
+  isNaN(Number(s)) ? err(`${s} is not a number`) : ok(Number(s));
+
+describe("Result", () => {
+  describe("map and mapError", () => {
+    it("should map the value of an Ok", () => {
+      const result = ok<number, string>(5).map((x) => x * 2);
+      expect(result.isOk()).toBe(true);
+      expect(result.getOrElseValue(0)).toBe(10);
+    });
+
+    it("should pass an Err along", () => {
+      const result = err<string, number>("oops").map((x) => x * 2);
+      expect(result.state).toEqual({ kind: "Err", error: "oops" });
+    });
+
+    it("should map the error of an Err", () => {
+      const result = err<string, number>("oops").mapError((e) => e.length);
+      expect(result.state).toEqual({ kind: "Err", error: 4 });
+    });
+  });
+
+  describe("andThen and orElse", () => {
+    it("should chain computations that may fail", () => {
+      expect(ok<string, string>("5").andThen(parse).state).toEqual({
+        kind: "Ok",
+        value: 5,
+      });
+      expect(ok<string, string>("five").andThen(parse).state).toEqual({
+        kind: "Err",
+        error: "five is not a number",
+      });
+    });
+
+    it("should recover from an error", () => {
+      const result = parse("five").orElse((e) => ok(e.length));
+      expect(result.getOrElseValue(0)).toBe(20);
+      expect(
+        parse("5")
+          .orElse(() => ok(0))
+          .getOrElseValue(1)
+      ).toBe(5);
+    });
+  });
+
+  describe("cata and getOrElse", () => {
+    it("should match on Ok and Err", () => {
+      const matcher = {
+        Ok: (n: number) => `value ${n}`,
+        Err: (e: string) => `error ${e}`,
+      };
+      expect(parse("1").cata(matcher)).toBe("value 1");
+      expect(parse("x").cata(matcher)).toBe("error x is not a number");
+    });
+
+    it("should pass the error to getOrElse", () => {
+      expect(parse("x").getOrElse((e) => e.length)).toBe(17);
+      expect(parse("3").getOrElse(() => 0)).toBe(3);
+    });
+  });
+
+  describe("assign", () => {
+    it("should build up an object", () => {
+      const result = ok<{}, string>({})
+        .assign("a", parse("1"))
+        .assign("b", (scope) => parse(String(scope.a + 1)));
+      expect(result.state).toEqual({ kind: "Ok", value: { a: 1, b: 2 } });
+    });
+
+    it("should stop at the first Err", () => {
+      const result = ok<{}, string>({})
+        .assign("a", parse("x"))
+        .assign("b", parse("y"));
+      expect(result.state).toEqual({ kind: "Err", error: "x is not a number" });
+    });
+
+    it("should give an Err when the value is not an object", () => {
+      const withError = ok<unknown, string>(5).assign(
+        "a",
+        parse("1"),
+        (value) => `${value} is not an object`
+      );
+      expect(withError.state).toEqual({
+        kind: "Err",
+        error: "5 is not an object",
+      });
+    });
+
+    it("should require onNonObject unless the value is an object", () => {
+      // @ts-expect-error the value may not be an object
+      ok<unknown, string>(null).assign("a", parse("1"));
+
+      const result: Result<string, { a: number }> = ok<{}, string>({}).assign(
+        "a",
+        ok(1)
+      );
+      expect(result.state).toEqual({ kind: "Ok", value: { a: 1 } });
+    });
+  });
+
+  describe("error types", () => {
+    it("should add the errors of chained Results", () => {
+      const parsed: Result<string, number> = ok("5").andThen(parse);
+      expect(parsed.state).toEqual({ kind: "Ok", value: 5 });
+
+      const assigned: Result<string, { n: number }> = ok({}).assign(
+        "n",
+        parse("5")
+      );
+      expect(assigned.state).toEqual({ kind: "Ok", value: { n: 5 } });
+
+      const mixed: Result<string | number, number> = parse("x").andThen((n) =>
+        n > 0 ? ok(n) : err(n)
+      );
+      expect(mixed.state).toEqual({ kind: "Err", error: "x is not a number" });
+
+      const recovered: Result<never, number | string> = parse("x").orElse((e) =>
+        ok(e)
+      );
+      expect(recovered.state).toEqual({
+        kind: "Ok",
+        value: "x is not a number",
+      });
+    });
+  });
+
+  describe("immutability", () => {
+    it("should freeze the Result and its state", () => {
+      const result = ok<number, string>(1);
+      expect(Object.isFrozen(result)).toBe(true);
+      expect(Object.isFrozen(result.state)).toBe(true);
+      expect(() => {
+        (result as { state: unknown }).state = err("changed");
+      }).toThrow(TypeError);
+      expect(result.getOrElseValue(0)).toBe(1);
+    });
+  });
+
+  describe("do and elseDo", () => {
+    it("should run side effects on the matching branch", () => {
+      const calls: string[] = [];
+      parse("1")
+        .do((n) => calls.push(`ok ${n}`))
+        .elseDo((e) => calls.push(`err ${e}`));
+      parse("x")
+        .do((n) => calls.push(`ok ${n}`))
+        .elseDo((e) => calls.push(`err ${e}`));
+      expect(calls).toEqual(["ok 1", "err x is not a number"]);
+    });
+  });
+
+  describe("Maybe interop", () => {
+    it("should convert a Maybe into a Result", () => {
+      expect(just(5).toResult(() => "missing").state).toEqual({
+        kind: "Ok",
+        value: 5,
+      });
+      expect(nothing().toResult(() => "missing").state).toEqual({
+        kind: "Err",
+        error: "missing",
+      });
+      expect(Result.fromMaybe(nothing(), () => 1).isErr()).toBe(true);
+    });
+
+    it("should convert a Result into a Maybe", () => {
+      expect(parse("5").toMaybe().state).toBe(5);
+      expect(parse("x").toMaybe().isNothing()).toBe(true);
+    });
+  });
+});
+
+describe("Result functions", () => {
+  it("should sequence an array of Results", () => {
+    expect(sequenceResult([ok(1), ok(2)]).state).toEqual({
+      kind: "Ok",
+      value: [1, 2],
+    });
+    expect(sequenceResult([ok(1), err("a"), err("b")]).state).toEqual({
+      kind: "Err",
+      error: "a",
+    });
+  });
+
+  it("should traverse an array in curried form", () => {
+    const parseAll = traverseResult(parse);
+    expect(parseAll(["1", "2"]).state).toEqual({ kind: "Ok", value: [1, 2] });
+    expect(traverseResult(parse, ["1", "two"]).isErr()).toBe(true);
+  });
+
+  it("should convert between Maybe and Result", () => {
+    const required = toResult(() => "required");
+    expect(required(just(5)).isOk()).toBe(true);
+    expect(toResult(() => "required", nothing()).isErr()).toBe(true);
+    expect(toMaybe(ok(5)).state).toBe(5);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "bun:test";
+import { sequenceRecord, sequenceTuple } from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+
+describe("sequenceTuple", () => {
+  it("should combine Justs keeping the type of each position", () => {
+    const result: Maybe<[number, string, boolean]> = sequenceTuple(
+      just(1),
+      just("a"),
+      just(true)
+    );
+    expect(result.getOrNull()).toEqual([1, "a", true]);
+  });
+
+  it("should return Nothing if any argument is Nothing", () => {
+    expect(sequenceTuple(just(1), nothing<string>()).isNothing()).toBe(true);
+  });
+
+  it("should return an empty tuple for no arguments", () => {
+    expect(sequenceTuple().getOrNull()).toEqual([]);
+  });
+});
+
+describe("sequenceRecord", () => {
+  it("should combine Justs keeping the type of each key", () => {
+    const result: Maybe<{ a: number; b: string }> = sequenceRecord({
+      a: just(1),
+      b: just("x"),
+    });
+    expect(result.getOrNull()).toEqual({ a: 1, b: "x" });
+  });
+
+  it("should return Nothing if any value is Nothing", () => {
+    const result = sequenceRecord({ a: just(1), b: nothing<string>() });
+    expect(result.isNothing()).toBe(true);
+  });
+
+  it("should keep Justs holding null", () => {
+    const result = sequenceRecord({ a: just(null) });
+    expect(result.getOrNull()).toEqual({ a: null });
+  });
+});
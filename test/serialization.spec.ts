@@ -0,0 +1,105 @@
+import { describe, it, expect } from "bun:test";
+import Maybe, { just, MaybeJSON, nothing } from "../src/Maybe";
+
+describe("Maybe.toJSON", () => {
+  it("should use the tagged wire format", () => {
+    expect(JSON.stringify(just(5))).toBe('{"kind":"Just","value":5}');
+    expect(JSON.stringify(nothing())).toBe('{"kind":"Nothing"}');
+  });
+
+  it("should serialize nested Maybes", () => {
+    expect(JSON.stringify({ a: [just(just(1))] })).toBe(
+      '{"a":[{"kind":"Just","value":{"kind":"Just","value":1}}]}'
+    );
+  });
+});
+
+describe("Maybe.fromJSON", () => {
+  it("should convert the wire format into a Maybe", () => {
+    const result = Maybe.fromJSON({ kind: "Just", value: 5 });
+    expect(result).toBeInstanceOf(Maybe);
+    expect(result.state).toBe(5);
+    expect(Maybe.fromJSON({ kind: "Nothing" }).isNothing()).toBe(true);
+  });
+
+  it("should revive nested values", () => {
+    const result = Maybe.fromJSON<{ b: Maybe<number> }>(
+      JSON.parse(JSON.stringify(just({ b: just(1) })))
+    );
+    expect(result.state?.b).toBeInstanceOf(Maybe);
+    expect(result.state?.b.state).toBe(1);
+  });
+
+  it("should reject anything else", () => {
+    const payload: unknown = { state: 5 };
+    expect(() => Maybe.fromJSON(payload as MaybeJSON<number>)).toThrow(
+      TypeError
+    );
+  });
+});
+
+describe("Maybe.reviver", () => {
+  it("should round-trip Maybes nested in objects and arrays", () => {
+    const payload = {
+      user: just({ name: "Ann", nickname: nothing<string>() }),
+      tags: [just("a"), nothing<string>()],
+    };
+    const parsed = JSON.parse(JSON.stringify(payload), Maybe.reviver);
+    expect(parsed.user).toBeInstanceOf(Maybe);
+    expect(parsed.user.state.name).toBe("Ann");
+    expect(parsed.user.state.nickname.isNothing()).toBe(true);
+    expect(parsed.tags[0].state).toBe("a");
+    expect(parsed.tags[1].isNothing()).toBe(true);
+  });
+
+  it("should leave other objects alone", () => {
+    const parsed = JSON.parse(
+      '{"kind":"Just","value":1,"extra":2}',
+      Maybe.reviver
+    );
+    expect(parsed).toEqual({ kind: "Just", value: 1, extra: 2 });
+  });
+});
+
+describe("Maybe.revive", () => {
+  it("should rehydrate structurally cloned Maybes", () => {
+    const cloned = structuredClone({
+      id: 1,
+      parent: just({ id: 2, parent: nothing<number>() }),
+      children: [just(3)],
+    });
+    expect(cloned.parent).not.toBeInstanceOf(Maybe);
+
+    const revived = Maybe.revive<typeof cloned>(cloned);
+    expect(revived.parent).toBeInstanceOf(Maybe);
+    expect(revived.parent.state?.parent.isNothing()).toBe(true);
+    expect(revived.children[0].map((x) => x + 1).state).toBe(4);
+  });
+
+  it("should keep Justs of null and undefined", () => {
+    const revived = Maybe.revive<Maybe<null>[]>(
+      structuredClone([just(null), just(undefined), nothing()])
+    );
+    expect(revived.map((m) => m.kind)).toEqual(["Just", "Just", "Nothing"]);
+    expect(JSON.parse(JSON.stringify(just(null)), Maybe.reviver).isJust()).toBe(
+      true
+    );
+  });
+
+  it("should not mutate its input", () => {
+    const cloned = structuredClone({ a: just(1) });
+    Maybe.revive(cloned);
+    expect(cloned.a).not.toBeInstanceOf(Maybe);
+  });
+});
+
+describe("Maybe.nullableReplacer", () => {
+  it("should write Justs as their values and Nothings as null", () => {
+    const json = JSON.stringify(
+      { a: just(5), b: nothing(), c: [just({ d: just("x") })] },
+      Maybe.nullableReplacer
+    );
+    expect(json).toBe('{"a":5,"b":null,"c":[{"d":"x"}]}');
+    expect(JSON.stringify(just(1), Maybe.nullableReplacer)).toBe("1");
+  });
+});
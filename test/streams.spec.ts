@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import Maybe, { just, nothing } from "../src/Maybe";
+import {
+  catMaybesStream,
+  compactAsync,
+  mapMaybeAsync,
+  mapMaybeStream,
+  sequenceAsyncIterable,
+  takeWhileJust,
+} from "../src/streams";
+
+async function* from<T>(values: T[], read: T[] = []): AsyncGenerator<T> {
+  for (const value of values) {
+    read.push(value);
+    yield value;
+  }
+}
+
+const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+  const result: T[] = [];
+  for await (const value of source) {
+    result.push(value);
+  }
+  return result;
+};
+
+const parse = (s: string): Maybe<number> =>
+  /^\d+$/.test(s) ? just(Number(s)) : nothing();
+
+describe("compactAsync", () => {
+  it("should drop the Nothings", async () => {
+    const source = from([just(1), nothing<number>(), just(3)]);
+    expect(await collect(compactAsync(source))).toEqual([1, 3]);
+  });
+
+  it("should accept a plain iterable", async () => {
+    expect(await collect(compactAsync([nothing(), just("a")]))).toEqual(["a"]);
+  });
+});
+
+describe("mapMaybeAsync", () => {
+  it("should keep the values of the Justs", async () => {
+    const result = mapMaybeAsync(parse, from(["1", "x", "3"]));
+    expect(await collect(result)).toEqual([1, 3]);
+  });
+
+  it("should await asynchronous functions in its curried form", async () => {
+    const parseAsync = mapMaybeAsync(async (s: string) => parse(s));
+    expect(await collect(parseAsync(from(["x", "2"])))).toEqual([2]);
+  });
+});
+
+describe("takeWhileJust", () => {
+  it("should stop at the first Nothing without reading further", async () => {
+    const read: Maybe<number>[] = [];
+    const source = from([just(1), just(2), nothing<number>(), just(4)], read);
+    expect(await collect(takeWhileJust(source))).toEqual([1, 2]);
+    expect(read).toHaveLength(3);
+  });
+});
+
+describe("sequenceAsyncIterable", () => {
+  it("should collect all the values if every element is a Just", async () => {
+    const result = await sequenceAsyncIterable(from([just(1), just(2)]));
+    expect(result).toEqual(just([1, 2]));
+  });
+
+  it("should be Nothing as soon as a Nothing is read", async () => {
+    const read: Maybe<number>[] = [];
+    const source = from([just(1), nothing<number>(), just(3)], read);
+    const result = await sequenceAsyncIterable(source);
+    expect(result.isNothing()).toBe(true);
+    expect(read).toHaveLength(2);
+  });
+
+  it("should be chainable as an AsyncMaybe", async () => {
+    const total = await sequenceAsyncIterable(from([just(1), just(2)])).map(
+      (xs) => xs.reduce((a, b) => a + b, 0)
+    );
+    expect(total).toEqual(just(3));
+  });
+});
+
+describe("Web Streams", () => {
+  const readableOf = <T>(values: T[]) =>
+    new ReadableStream<T>({
+      start(controller) {
+        values.forEach((value) => controller.enqueue(value));
+        controller.close();
+      },
+    });
+
+  it("should drop Nothings with catMaybesStream", async () => {
+    const stream = readableOf([just(1), nothing<number>(), just(3)]);
+    const values = stream.pipeThrough(catMaybesStream<number>());
+    expect(await collect(values)).toEqual([1, 3]);
+  });
+
+  it("should map chunks with mapMaybeStream", async () => {
+    const stream = readableOf(["1", "x", "3"]);
+    const values = stream.pipeThrough(
+      mapMaybeStream(async (s: string) => parse(s))
+    );
+    expect(await collect(values)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import AsyncMaybe from "../src/AsyncMaybe";
+import {
+  firstJust,
+  fromNullable,
+  lift,
+  oneOf,
+  sequence,
+  sequenceRecord,
+} from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+import { sequenceAsyncIterable } from "../src/streams";
+
+const isAdult = (user: { age: number }) => user.age >= 18;
+
+describe("tracing", () => {
+  afterEach(() => {
+    Maybe.disableTracing();
+  });
+
+  it("should record nothing when tracing is off", () => {
+    expect(Maybe.isTracing()).toBe(false);
+    const result = just({ age: 12 }).filter(isAdult);
+    expect(result.trace).toBeUndefined();
+    expect(result.explain()).toContain("Maybe.enableTracing()");
+  });
+
+  it("should record the origin of a Nothing", () => {
+    Maybe.enableTracing();
+    expect(nothing("not found").trace).toMatchObject({
+      operation: "nothing",
+      label: "not found",
+    });
+    expect(fromNullable(null).trace?.operation).toBe("fromNullable");
+
+    const filtered = just({ age: 12 }).filter(isAdult);
+    expect(filtered.trace).toMatchObject({
+      operation: "filter",
+      label: "isAdult",
+    });
+    expect(filtered.trace?.stack).toContain("tracing.spec");
+  });
+
+  it("should record andThen steps and their cause", () => {
+    Maybe.enableTracing();
+    const findEmail = (u: { email?: string }) => fromNullable(u.email);
+    const result = just({}).andThen(findEmail);
+    expect(result.trace).toMatchObject({
+      operation: "andThen",
+      label: "findEmail",
+      cause: { operation: "fromNullable" },
+    });
+
+    const labelled = just(1).andThen(() => nothing(), "load profile");
+    expect(labelled.trace?.label).toBe("load profile");
+  });
+
+  it("should record the key of a failed assign", () => {
+    Maybe.enableTracing();
+    const result = just({ id: 1 })
+      .assign("user", just({ name: "Ada" }))
+      .assign("team", nothing<string>("no team"))
+      .assign("other", just(1));
+    expect(result.trace).toMatchObject({
+      operation: "assign",
+      key: "team",
+      cause: { operation: "nothing", label: "no team" },
+    });
+  });
+
+  it("should keep the original cause through map and andThen", () => {
+    Maybe.enableTracing();
+    const result = just(5)
+      .filter((x) => x > 10, "more than 10")
+      .map((x) => x * 2)
+      .andThen((x) => just(x + 1))
+      .filter(() => true);
+    expect(result.trace).toMatchObject({
+      operation: "filter",
+      label: "more than 10",
+    });
+  });
+
+  it("should explain a Nothing", () => {
+    Maybe.enableTracing();
+    const explanation = just({ id: 1 })
+      .assign("team", nothing<string>("no team"))
+      .explain();
+    expect(explanation).toStartWith('Nothing from assign of key "team"\n');
+    expect(explanation).toContain('caused by nothing "no team"');
+    expect(just(5).explain()).toBe("Just(5)");
+  });
+
+  it("should not affect equality or serialization", () => {
+    Maybe.enableTracing();
+    const traced = nothing("why");
+    expect(traced.equals(nothing())).toBe(true);
+    expect(JSON.stringify(traced)).toBe('{"kind":"Nothing"}');
+    expect(Object.keys(traced)).toEqual(["kind"]);
+  });
+
+  it("should keep the cause through AsyncMaybe", async () => {
+    Maybe.enableTracing();
+    const chained = await AsyncMaybe.from(just(1)).andThen(function findUser() {
+      return nothing<number>("user missing");
+    });
+    expect(chained.explain()).toStartWith('Nothing from andThen "findUser"\n');
+    expect(chained.explain()).toContain('caused by nothing "user missing"');
+
+    const missing = nothing<number>("no id");
+    expect(await AsyncMaybe.from(missing).map((x) => x + 1)).toBe(missing);
+    expect(await AsyncMaybe.from(missing).elseDo(() => {})).toBe(missing);
+    const generated = await AsyncMaybe.gen(async function* (bind) {
+      return yield* bind(missing);
+    });
+    expect(generated).toBe(missing);
+
+    const filtered = await AsyncMaybe.just(1).filter(function isEven(n) {
+      return n % 2 === 0;
+    });
+    expect(filtered.trace).toMatchObject({
+      operation: "filter",
+      label: "isEven",
+    });
+  });
+
+  it("should keep the cause through sequence, lift and alternatives", async () => {
+    Maybe.enableTracing();
+    const second = nothing<number>("second missing");
+    expect<Maybe<unknown>>(sequence([just(1), second])).toBe(second);
+    expect<Maybe<unknown>>(sequenceRecord({ a: just(1), b: second })).toBe(
+      second
+    );
+    expect<Maybe<unknown>>(await sequenceAsyncIterable([just(1), second])).toBe(
+      second
+    );
+
+    const add = (a: number, b: number) => a + b;
+    const b = nothing<number>("b missing");
+    expect(lift(add)(just(1), b).explain()).toStartWith(
+      'Nothing from nothing "b missing"'
+    );
+
+    const last = nothing<number>("no config file");
+    expect(firstJust([nothing(), last])).toBe(last);
+    expect(oneOf([() => nothing<number>(), () => last])).toBe(last);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "bun:test";
+import * as functions from "../src/functions";
+import {
+  assertJust,
+  fromNullable,
+  getOrElse,
+  getOrElseValue,
+  getOrThrow,
+  getOrThrowWith,
+} from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+import { getOrThrow as getOrThrowModule } from "../src/fp/getOrThrow";
+import NothingError from "../src/NothingError";
+import { pipe } from "../src/pipe";
+
+class NotFound extends Error {}
+
+const thrown = (fn: () => unknown): NothingError => {
+  try {
+    fn();
+  } catch (e) {
+    return e as NothingError;
+  }
+  throw new Error("Expected a NothingError to be thrown");
+};
+
+describe("Maybe.getOrThrow", () => {
+  it("should return the value of a Just", () => {
+    expect(just(5).getOrThrow()).toBe(5);
+  });
+
+  it("should throw a NothingError by default", () => {
+    expect(() => nothing().getOrThrow()).toThrow(NothingError);
+  });
+
+  it("should throw the error from the factory", () => {
+    expect(() => nothing().getOrThrow(() => new NotFound("no user"))).toThrow(
+      NotFound
+    );
+  });
+
+  it("should work as a function", () => {
+    expect(getOrThrow(just(1))).toBe(1);
+    expect(() => getOrThrow(nothing())).toThrow(NothingError);
+    expect(() => getOrThrowWith(() => new NotFound(), nothing())).toThrow(
+      NotFound
+    );
+    const requireUser = getOrThrowWith(() => new NotFound());
+    expect(requireUser(just("ada"))).toBe("ada");
+  });
+
+  it("should be passed uncalled to pipe", () => {
+    const fromPipe: number = pipe(just(1), getOrThrow);
+    const fromMethod: number = just(2).pipe(getOrThrow);
+    const fromModule: number = pipe(just(3), getOrThrowModule);
+    expect([fromPipe, fromMethod, fromModule]).toEqual([1, 2, 3]);
+    expect(() => pipe(nothing<number>(), getOrThrow)).toThrow(NothingError);
+  });
+});
+
+describe("Maybe.expect", () => {
+  it("should return the value of a Just", () => {
+    expect(just("x").expect("must be there")).toBe("x");
+  });
+
+  it("should throw a NothingError with the message", () => {
+    const error = thrown(() =>
+      fromNullable(undefined).expect("PORT must be set")
+    );
+    expect(error).toBeInstanceOf(NothingError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("NothingError");
+    expect(error.message).toBe("PORT must be set");
+  });
+
+  it("should attach the trace when tracing is enabled", () => {
+    Maybe.enableTracing();
+    try {
+      const error = thrown(() => nothing("no config").expect("config"));
+      expect(error.trace?.label).toBe("no config");
+    } finally {
+      Maybe.disableTracing();
+    }
+  });
+
+  it("should work as a function", () => {
+    expect(functions.expect("a number", just(1))).toBe(1);
+    expect(() => pipe(nothing<number>(), functions.expect("a number"))).toThrow(
+      "a number"
+    );
+  });
+});
+
+describe("Maybe.getOrUndefined and Maybe.getOrNull", () => {
+  it("should return the value or the empty value", () => {
+    expect(just(1).getOrUndefined()).toBe(1);
+    expect(nothing<number>().getOrUndefined()).toBeUndefined();
+    expect(just(1).getOrNull()).toBe(1);
+    expect(nothing<number>().getOrNull()).toBeNull();
+  });
+
+  it("should work as functions", () => {
+    const maybes = [just(1), nothing<number>()];
+    const values: (number | undefined)[] = maybes.map(functions.getOrUndefined);
+    expect(values).toEqual([1, undefined]);
+    expect(maybes.map(functions.getOrNull)).toEqual([1, null]);
+  });
+});
+
+describe("assertJust", () => {
+  it("should narrow a Just", () => {
+    const m: Maybe<number> = just(5);
+    assertJust(m);
+    const value: number = m.value;
+    expect(value).toBe(5);
+  });
+
+  it("should throw a NothingError for Nothing", () => {
+    expect(() => assertJust(nothing(), "expected a user")).toThrow(
+      "expected a user"
+    );
+  });
+});
+
+describe("widening defaults", () => {
+  it("should allow a default of a different type", () => {
+    const a: number | null = just(5).getOrElse(() => null);
+    const b: number | string = nothing<number>().getOrElseValue("none");
+    expect(a).toBe(5);
+    expect(b).toBe("none");
+  });
+
+  it("should widen in the curried functions", () => {
+    const c: number | null = getOrElse(() => null, nothing<number>());
+    const d: number | null = pipe(
+      just(5),
+      getOrElse(() => null)
+    );
+    const e: number | "none" = pipe(
+      nothing<number>(),
+      getOrElseValue("none" as const)
+    );
+    expect([c, d, e]).toEqual([null, 5, "none"]);
+  });
+
+  it("should still infer the contained type for the default", () => {
+    const xs: number[] = nothing<number[]>().getOrElse(() => []);
+    expect(xs).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+import { sequence, unzip, zip, zipWith } from "../src/functions";
+import Maybe, { just, nothing } from "../src/Maybe";
+import { pipe } from "../src/pipe";
+
+describe("Maybe.zip", () => {
+  it("should pair two Justs", () => {
+    const pair: Maybe<[number, string]> = just(1).zip(just("a"));
+    expect(pair).toEqual(just([1, "a"]));
+  });
+
+  it("should be Nothing if either is Nothing", () => {
+    expect(just(1).zip(nothing<string>()).isNothing()).toBe(true);
+    expect(nothing<number>().zip(just("a")).isNothing()).toBe(true);
+  });
+});
+
+describe("Maybe.zipWith", () => {
+  it("should combine two Justs", () => {
+    expect(just(2).zipWith(just(3), (a, b) => a * b)).toEqual(just(6));
+  });
+
+  it("should not call the function if either is Nothing", () => {
+    let called = false;
+    const result = just(2).zipWith(nothing<number>(), (a, b) => {
+      called = true;
+      return a * b;
+    });
+    expect(result.isNothing()).toBe(true);
+    expect(called).toBe(false);
+  });
+});
+
+describe("Maybe.unzip", () => {
+  it("should split a Just of a pair", () => {
+    const [a, b] = just<[number, string]>([1, "a"]).unzip();
+    expect(a).toEqual(just(1));
+    expect(b).toEqual(just("a"));
+  });
+
+  it("should split Nothing into two Nothings", () => {
+    const [a, b] = nothing<[number, string]>().unzip();
+    expect(a.isNothing()).toBe(true);
+    expect(b.isNothing()).toBe(true);
+  });
+
+  it("should only be callable on a Maybe of a pair", () => {
+    // @ts-expect-error a number is not a pair
+    expect(() => just(1).unzip()).toThrow();
+  });
+});
+
+describe("zip functions", () => {
+  it("should work with both arguments and curried", () => {
+    expect(zip(just("a"), just(1))).toEqual(just([1, "a"]));
+    expect(pipe(just(1), zip(just("a")))).toEqual(just([1, "a"]));
+    expect(zipWith(just(3), (a: number, b: number) => a - b, just(5))).toEqual(
+      just(2)
+    );
+    expect(zipWith(just(3), (a: number, b: number) => a - b)(just(5))).toEqual(
+      just(2)
+    );
+    expect(unzip(zip(just("a"), just(1)))).toEqual([just(1), just("a")]);
+  });
+
+  it("should combine with sequence", () => {
+    const names = sequence([just("a"), just("b")]);
+    const ages = sequence([just(1), nothing<number>()]);
+    expect(names.zip(ages).isNothing()).toBe(true);
+  });
+});
@@ -1,8 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
-  splitting: false,
+  // Each fp function is its own entry point, so "maybeasy/fp/map" can be
+  // imported on its own. Splitting keeps a single copy of the Maybe class
+  // shared between all of them.
+  entry: ["src/index.ts", "src/fp/*.ts"],
+  splitting: true,
   sourcemap: true,
   clean: true,
   dts: true,